@@ -0,0 +1,362 @@
+/**
+ * Command-line interface: argument parsing, help output and exit codes
+ */
+
+import { ConfigOverrides, TransactionType, ReimbursementBasis, LedgerMatchRule } from './types';
+import { loadConfig, displayConfig } from './config';
+import { ConfigError, RpcError, InterruptedError } from './errors';
+import { EXIT_CODES, DEFAULT_CACHE_DIR, DEFAULT_CACHE_PRUNE_DAYS } from './constants';
+import { initCache } from './services/cache';
+import { runTrack } from './commands/track';
+import { runVerify } from './commands/verify';
+import { runExplain } from './commands/explain';
+import { runEstimate } from './commands/estimate';
+import { runCache } from './commands/cache';
+import { runPayload, PayloadOptions } from './commands/payload';
+import { runLedger } from './commands/ledger';
+import { logHeader, logInfo, logError, logWarning, logSeparator } from './utils/logger';
+
+/**
+ * Available subcommands
+ */
+const COMMANDS = ['track', 'summary', 'verify', 'explain', 'estimate', 'payload', 'ledger', 'cache'] as const;
+type Command = typeof COMMANDS[number];
+
+/**
+ * CLI-only options that are not part of the config file
+ */
+interface CliOptions {
+  noCache: boolean; // --no-cache
+  noResume: boolean; // --no-resume
+  cacheDir: string; // --cache-dir <dir>
+  olderThanDays: number; // --older-than <days> (cache prune)
+  all: boolean; // --all (cache invalidate)
+  reimbursement: PayloadOptions; // --treasury, --mint, --token-price, --basis, --types (payload, ledger)
+  matchRule: LedgerMatchRule; // --match <rule> (ledger)
+}
+
+/**
+ * CLI-only flags that take a value
+ */
+const CLI_VALUE_FLAGS = ['--cache-dir', '--older-than', '--treasury', '--mint', '--token-price', '--basis', '--types', '--match'];
+
+/**
+ * Flags that take a value, mapped to their ConfigOverrides field
+ */
+const VALUE_FLAGS: Record<string, keyof ConfigOverrides> = {
+  '--config': 'configPath',
+  '--out': 'outDir',
+  '--realm': 'realm',
+  '--wallet': 'wallet',
+  '--from': 'from',
+  '--to': 'to',
+  '--rps': 'rps',
+  '--prices': 'prices',
+  '--attribution': 'attribution'
+};
+
+const HELP_TEXT = `
+Usage: realms-tx-tracker [command] [options]
+
+Commands:
+  track               Fetch, classify and report governance costs (default)
+  summary             Same as track, console summary only (no CSV files)
+  verify              Check config, RPC, realms and TokenOwnerRecords
+  explain <signature> Show how a single transaction is classified
+  estimate            Count transactions and estimate run time
+  payload             Build a reimbursement proposal payload (needs --treasury)
+  ledger              Match costs against reimbursements already paid by the treasuries
+  cache inspect       Show cache location, entry counts and size
+  cache prune         Remove cache entries not used recently (see --older-than)
+  cache invalidate <signature|address>
+                      Remove a cached transaction or an address's signature pages
+                      (--all clears the whole cache)
+
+Options:
+  --config <path>     Config file (default: ./config.json)
+  --out <dir>         Directory for CSV reports (default: current directory)
+  --realm <pubkey>    Realm to track (overrides realm_id / realm_ids)
+  --wallet <pubkey>   Wallet to track (overrides wallet_address / wallets)
+  --from <MM-DD-YYYY> Start date (overrides start_date)
+  --to <MM-DD-YYYY>   End date (overrides end_date)
+  --rps <n>           RPC requests per second (overrides rps)
+  --prices <path>     SOL/USD price file for USD values (overrides usd_price_file)
+  --attribution <mode> fee_payer, signer or token_owner (overrides attribution_mode)
+  --no-cache          Bypass the on-disk cache (no reads or writes)
+  --cache-dir <dir>   Cache directory (default: ./${DEFAULT_CACHE_DIR})
+  --older-than <days> Age threshold for cache prune (default: ${DEFAULT_CACHE_PRUNE_DAYS})
+  --all               With cache invalidate, clear every entry
+  --treasury <pubkey> Native treasury paying reimbursements (payload; limits the ledger scan)
+  --mint <pubkey>     Reimburse in this SPL token instead of SOL (payload, ledger; needs prices)
+  --token-price <usd> USD per token for --mint (default: 1)
+  --basis <basis>     reimbursable (capped fees, default) or total (net cost incl. rent)
+  --types <list>      Comma-separated transaction types to reimburse (default: all)
+  --match <rule>      Ledger matching: fifo (default) or claim_period
+  --no-resume         Ignore a saved checkpoint and start the run from scratch
+  -h, --help          Show this help
+
+Exit codes:
+  ${EXIT_CODES.success}  Success
+  ${EXIT_CODES.unexpectedError}  Unexpected error
+  ${EXIT_CODES.configError}  Configuration or usage error
+  ${EXIT_CODES.rpcError}  RPC failure
+  ${EXIT_CODES.noTransactions}  No transactions found
+  ${EXIT_CODES.interrupted}  Interrupted (partial report written, resume by running again)
+`;
+
+/**
+ * Parsed command-line arguments
+ */
+interface CliArgs {
+  command: Command;
+  overrides: ConfigOverrides;
+  options: CliOptions;
+  positionals: string[];
+  help: boolean;
+}
+
+/**
+ * Parse a comma-separated list of transaction types (case-insensitive)
+ * @throws ConfigError on an unknown type
+ */
+function parseTransactionTypes(value: string): TransactionType[] {
+  const types = Object.values(TransactionType);
+  return value.split(',').map(name => name.trim()).filter(name => name.length > 0).map(name => {
+    const type = types.find(candidate => candidate.toLowerCase() === name.toLowerCase());
+    if (!type) {
+      throw new ConfigError(`Unknown transaction type: ${name} (expected one of: ${types.join(', ')})`);
+    }
+    return type;
+  });
+}
+
+/**
+ * Parse command-line arguments
+ * @throws ConfigError on unknown commands, unknown flags or missing flag values
+ */
+export function parseArgs(argv: string[]): CliArgs {
+  const overrides: ConfigOverrides = {};
+  const options: CliOptions = {
+    noCache: false,
+    noResume: false,
+    cacheDir: DEFAULT_CACHE_DIR,
+    olderThanDays: DEFAULT_CACHE_PRUNE_DAYS,
+    all: false,
+    reimbursement: {
+      treasury: null,
+      mint: null,
+      tokenPrice: 1,
+      basis: ReimbursementBasis.REIMBURSABLE,
+      types: null
+    },
+    matchRule: LedgerMatchRule.FIFO
+  };
+  const positionals: string[] = [];
+  let help = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === '-h' || arg === '--help') {
+      help = true;
+      continue;
+    }
+    if (arg === '--no-cache') {
+      options.noCache = true;
+      continue;
+    }
+    if (arg === '--no-resume') {
+      options.noResume = true;
+      continue;
+    }
+    if (arg === '--all') {
+      options.all = true;
+      continue;
+    }
+
+    if (arg.startsWith('-')) {
+      const [flag, inlineValue] = arg.split('=', 2);
+      const field = VALUE_FLAGS[flag];
+      if (!field && !CLI_VALUE_FLAGS.includes(flag)) {
+        throw new ConfigError(`Unknown option: ${flag}`);
+      }
+
+      const value = inlineValue ?? argv[++i];
+      if (value === undefined || value.startsWith('--')) {
+        throw new ConfigError(`Option ${flag} requires a value`);
+      }
+
+      if (flag === '--cache-dir') {
+        options.cacheDir = value;
+      } else if (flag === '--older-than') {
+        const days = Number(value);
+        if (!Number.isFinite(days) || days < 0) {
+          throw new ConfigError('--older-than must be a non-negative number of days');
+        }
+        options.olderThanDays = days;
+      } else if (flag === '--treasury') {
+        options.reimbursement.treasury = value;
+      } else if (flag === '--mint') {
+        options.reimbursement.mint = value;
+      } else if (flag === '--token-price') {
+        const price = Number(value);
+        if (!Number.isFinite(price) || price <= 0) {
+          throw new ConfigError('--token-price must be a positive number');
+        }
+        options.reimbursement.tokenPrice = price;
+      } else if (flag === '--basis') {
+        if (!(Object.values(ReimbursementBasis) as string[]).includes(value)) {
+          throw new ConfigError(`--basis must be one of: ${Object.values(ReimbursementBasis).join(', ')}`);
+        }
+        options.reimbursement.basis = value as ReimbursementBasis;
+      } else if (flag === '--types') {
+        options.reimbursement.types = parseTransactionTypes(value);
+      } else if (flag === '--match') {
+        if (!(Object.values(LedgerMatchRule) as string[]).includes(value)) {
+          throw new ConfigError(`--match must be one of: ${Object.values(LedgerMatchRule).join(', ')}`);
+        }
+        options.matchRule = value as LedgerMatchRule;
+      } else if (field === 'rps') {
+        const rps = Number(value);
+        if (!Number.isInteger(rps) || rps <= 0) {
+          throw new ConfigError('--rps must be a positive integer');
+        }
+        overrides.rps = rps;
+      } else {
+        overrides[field] = value;
+      }
+      continue;
+    }
+
+    positionals.push(arg);
+  }
+
+  let command: Command = 'track';
+  if (positionals.length > 0) {
+    const name = positionals.shift()!;
+    if (!(COMMANDS as readonly string[]).includes(name)) {
+      throw new ConfigError(`Unknown command: ${name}`);
+    }
+    command = name as Command;
+  }
+
+  return { command, overrides, options, positionals, help };
+}
+
+/**
+ * Run a parsed command
+ * @returns Process exit code
+ */
+async function runCommand(args: CliArgs): Promise<number> {
+  // Cache maintenance does not need config.json or an RPC endpoint
+  if (args.command === 'cache') {
+    if (args.positionals.length > 2) {
+      throw new ConfigError(`Unexpected argument: ${args.positionals[2]}`);
+    }
+    const [action, target] = args.positionals;
+    runCache(args.options.cacheDir, action, target, args.options);
+    return EXIT_CODES.success;
+  }
+
+  if (args.command === 'explain' && args.positionals.length !== 1) {
+    throw new ConfigError('explain requires exactly one transaction signature');
+  }
+  if (args.command !== 'explain' && args.positionals.length > 0) {
+    throw new ConfigError(`Unexpected argument: ${args.positionals[0]}`);
+  }
+
+  initCache(args.options.cacheDir, !args.options.noCache);
+
+  // Load and validate configuration
+  logInfo('Loading configuration...');
+  const config = loadConfig(args.overrides);
+  displayConfig(config);
+  logSeparator();
+
+  switch (args.command) {
+    case 'track':
+    case 'summary': {
+      const trackedCount = await runTrack(config, {
+        writeReports: args.command === 'track',
+        checkpointDir: args.options.cacheDir,
+        resume: !args.options.noResume
+      });
+      return trackedCount > 0 ? EXIT_CODES.success : EXIT_CODES.noTransactions;
+    }
+    case 'verify':
+      await runVerify(config);
+      return EXIT_CODES.success;
+    case 'explain': {
+      const found = await runExplain(config, args.positionals[0]);
+      return found ? EXIT_CODES.success : EXIT_CODES.noTransactions;
+    }
+    case 'estimate': {
+      const signatureCount = await runEstimate(config);
+      return signatureCount > 0 ? EXIT_CODES.success : EXIT_CODES.noTransactions;
+    }
+    case 'payload': {
+      const paymentCount = await runPayload(config, args.options.reimbursement);
+      return paymentCount > 0 ? EXIT_CODES.success : EXIT_CODES.noTransactions;
+    }
+    case 'ledger': {
+      const entryCount = await runLedger(config, { ...args.options.reimbursement, matchRule: args.options.matchRule });
+      return entryCount > 0 ? EXIT_CODES.success : EXIT_CODES.noTransactions;
+    }
+    default:
+      throw new ConfigError(`Unknown command: ${args.command}`);
+  }
+}
+
+/**
+ * Map an error to its exit code
+ */
+function exitCodeForError(error: unknown): number {
+  if (error instanceof ConfigError) {
+    return EXIT_CODES.configError;
+  }
+  if (error instanceof RpcError) {
+    return EXIT_CODES.rpcError;
+  }
+  if (error instanceof InterruptedError) {
+    return EXIT_CODES.interrupted;
+  }
+  return EXIT_CODES.unexpectedError;
+}
+
+/**
+ * CLI entry point
+ * @returns Process exit code
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  let args: CliArgs;
+
+  try {
+    args = parseArgs(argv);
+  } catch (error) {
+    logError((error as Error).message);
+    console.log(HELP_TEXT);
+    return exitCodeForError(error);
+  }
+
+  if (args.help) {
+    console.log(HELP_TEXT);
+    return EXIT_CODES.success;
+  }
+
+  logHeader('DAO Reimbursement Transaction Tracker');
+
+  try {
+    const exitCode = await runCommand(args);
+    if (exitCode === EXIT_CODES.noTransactions) {
+      logWarning('No transactions found');
+    }
+    return exitCode;
+  } catch (error) {
+    if (error instanceof InterruptedError) {
+      logWarning(error.message);
+    } else {
+      logError(`Error: ${(error as Error).message}`);
+    }
+    return exitCodeForError(error);
+  }
+}
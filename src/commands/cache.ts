@@ -0,0 +1,68 @@
+/**
+ * `cache` command: inspect, prune and invalidate the on-disk RPC cache
+ */
+
+import { getCacheStats, pruneCache, invalidateCache } from '../services/cache';
+import { ConfigError } from '../errors';
+import { logHeader, logInfo, logSuccess } from '../utils/logger';
+
+/**
+ * Cache maintenance actions
+ */
+const CACHE_ACTIONS = ['inspect', 'prune', 'invalidate'];
+
+/**
+ * Format a byte count for display
+ */
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Run a cache maintenance action
+ * @param cacheDir - Cache directory
+ * @param action - inspect, prune or invalidate
+ * @param target - For invalidate: a signature or address (omit with --all to clear everything)
+ * @param options - olderThanDays for prune, all for invalidate
+ */
+export function runCache(
+  cacheDir: string,
+  action: string | undefined,
+  target: string | undefined,
+  options: { olderThanDays: number; all: boolean }
+): void {
+  switch (action) {
+    case undefined:
+    case 'inspect': {
+      const stats = getCacheStats(cacheDir);
+      logHeader('Cache');
+      logInfo(`Directory: ${stats.directory}`);
+      logInfo(`Transactions: ${stats.transactions}`);
+      logInfo(`Signature pages: ${stats.signaturePages} (${stats.addresses} addresses)`);
+      logInfo(`Size: ${formatBytes(stats.totalBytes)}`);
+      console.log();
+      return;
+    }
+    case 'prune': {
+      const removed = pruneCache(cacheDir, options.olderThanDays);
+      logSuccess(`Pruned ${removed} entries not used in the last ${options.olderThanDays} days`);
+      return;
+    }
+    case 'invalidate': {
+      if (!target && !options.all) {
+        throw new ConfigError('cache invalidate requires a signature or address, or --all');
+      }
+      const removed = invalidateCache(cacheDir, options.all ? undefined : target);
+      logSuccess(`Invalidated ${removed} cache entries`);
+      return;
+    }
+    default:
+      throw new ConfigError(`Unknown cache action: ${action}. Expected ${CACHE_ACTIONS.join(', ')}`);
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * `estimate` command: count signatures and estimate the cost of a full run
+ * without fetching any transaction details
+ */
+
+import { ValidatedConfig } from '../types';
+import { formatWallet } from '../config';
+import { collectSignatures } from '../services/tracker';
+import { getMethodCost } from '../utils/rate-limiter';
+import { formatDuration } from '../utils/date-utils';
+import { logHeader, logInfo, logSeparator } from '../utils/logger';
+import { connect, loadRealms } from './setup';
+
+/**
+ * Estimate the number of transactions and RPC time a `track` run would need
+ * @returns Number of unique signatures that would be fetched
+ */
+export async function runEstimate(config: ValidatedConfig): Promise<number> {
+  const connection = await connect(config);
+  const realms = await loadRealms(connection, config);
+  const window = {
+    startTimestamp: config.startTimestamp,
+    endTimestamp: config.endTimestamp
+  };
+
+  const uniqueSignatures = new Set<string>();
+  const perWallet: { label: string; count: number }[] = [];
+
+  for (const wallet of config.wallets) {
+    logInfo(`Collecting signatures for ${formatWallet(wallet)}...`);
+    const { signatures } = await collectSignatures(connection, realms, wallet, window);
+    signatures.forEach(sig => uniqueSignatures.add(sig.signature));
+    perWallet.push({ label: wallet.label || wallet.address, count: signatures.length });
+    logSeparator();
+  }
+
+  // One getParsedTransaction per signature dominates the run time
+  const transactionRequests = uniqueSignatures.size;
+  const estimatedSeconds = transactionRequests * getMethodCost('getTransaction') / config.rps;
+
+  logHeader('Run Estimate');
+  for (const { label, count } of perWallet) {
+    logInfo(`${label}: ${count} transactions`);
+  }
+  logSeparator();
+  logInfo(`Unique transactions to fetch: ${transactionRequests}`);
+  logInfo(`Estimated fetch time at ${config.rps} requests/second: ${formatDuration(estimatedSeconds)}`);
+  console.log();
+
+  return transactionRequests;
+}
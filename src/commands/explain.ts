@@ -0,0 +1,186 @@
+/**
+ * `explain` command: show how a single transaction is classified and attributed
+ */
+
+import { ValidatedConfig, CostSplitRule, TransactionStatus, AttributionMode } from '../types';
+import { formatWallet } from '../config';
+import { fetchTransaction } from '../services/solana';
+import {
+  fetchGoverningTokenOwnerRecords,
+  fetchDelegatedTokenOwnerRecords,
+  fetchVoteRecords
+} from '../services/governance';
+import {
+  createRealmMembership,
+  resolveAccountRealms,
+  getAccountRealm
+} from '../services/realm-membership';
+import {
+  parseTransaction,
+  getGovernanceInstructionAccounts,
+  getFeePayer,
+  getReimbursableFee,
+  allocateCost,
+  formatTransactionError
+} from '../services/transaction-parser';
+import { formatSol, formatUsd } from '../utils/summary-display';
+import { valueTransaction } from '../services/pricing';
+import { formatTimestamp } from '../utils/date-utils';
+import { logHeader, logInfo, logSuccess, logWarning, logSeparator } from '../utils/logger';
+import { connect, loadRealms } from './setup';
+
+/**
+ * Explain the classification of one transaction for every configured wallet and realm
+ * @returns false if the transaction could not be found
+ */
+export async function runExplain(config: ValidatedConfig, signature: string): Promise<boolean> {
+  const connection = await connect(config);
+  const realms = await loadRealms(connection, config);
+
+  logInfo(`Fetching transaction ${signature}...`);
+  const tx = await fetchTransaction(connection, signature);
+  if (!tx || !tx.meta) {
+    logWarning('Transaction not found');
+    return false;
+  }
+
+  const membership = createRealmMembership(
+    realms.map(({ realmId, realmData }) => ({
+      realmId,
+      programId: realmData.programId,
+      voterWeightPlugins: realmData.voterWeightPlugins
+    }))
+  );
+  const governanceAccounts = new Set<string>();
+  const pluginPrograms = Array.from(membership.pluginProgramIds);
+  for (const programId of membership.programIds) {
+    getGovernanceInstructionAccounts(tx, programId, pluginPrograms).forEach(account => governanceAccounts.add(account));
+  }
+  await resolveAccountRealms(connection, membership, Array.from(governanceAccounts));
+
+  const blockTime = tx.blockTime || 0;
+  const feePayer = getFeePayer(tx);
+
+  logHeader('Transaction');
+  logInfo(`Signature: ${signature}`);
+  logInfo(`Slot: ${tx.slot}`);
+  logInfo(`Time: ${blockTime ? formatTimestamp(blockTime) : 'unknown'}`);
+  logInfo(`Fee payer: ${feePayer || 'unknown'}`);
+  logInfo(`Fee: ${formatSol(tx.meta.fee)}`);
+  logInfo(`Status: ${tx.meta.err ? `failed (${formatTransactionError(tx.meta.err)})` : 'success'}`);
+  logSeparator();
+
+  logInfo(`Governance instruction accounts (${governanceAccounts.size}):`);
+  for (const account of governanceAccounts) {
+    const realm = getAccountRealm(membership, account);
+    logInfo(`  ${account} -> ${realm ? `realm ${realm}` : 'not realm-scoped'}`);
+  }
+
+  for (const { realmId, realmData } of realms) {
+    logHeader(`Realm ${realmId}`);
+
+    for (const wallet of config.wallets) {
+      const tokenOwnerRecords = [
+        ...await fetchGoverningTokenOwnerRecords(connection, realmId, realmData, wallet.address),
+        ...await fetchDelegatedTokenOwnerRecords(connection, realmId, realmData, wallet.address)
+      ];
+      const outcome = parseTransaction(signature, tx, blockTime, {
+        walletAddress: wallet.address,
+        attributionMode: config.attributionMode,
+        realmId,
+        membership,
+        realmData,
+        tokenOwnerRecords
+      });
+
+      logInfo(`Wallet ${formatWallet(wallet)}`);
+
+      if (!outcome) {
+        const reason = config.attributionMode === AttributionMode.FEE_PAYER && feePayer !== wallet.address
+          ? `not tracked: fee payer is ${feePayer}, not this wallet`
+          : `not tracked: no governance instruction attributed to this wallet (attribution_mode ${config.attributionMode})`;
+        logWarning(`  ${reason}`);
+        continue;
+      }
+
+      const { transaction } = outcome;
+      if (outcome.status === 'tracked') {
+        logSuccess(`  Tracked as ${transaction.transactionType} (${transaction.governingTokenKind} token)`);
+        if (transaction.sponsored) {
+          logWarning(`  Fee paid by ${transaction.feePayer}: reported, not counted toward the wallet's totals`);
+        }
+        if (transaction.status === TransactionStatus.FAILED) {
+          logWarning(`  Failed transaction: ${config.reimburseFailed ? 'counts toward' : 'excluded from'} reimbursable totals (reimburse_failed_transactions)`);
+        }
+      } else if (outcome.status === 'paid_for_others') {
+        logWarning(`  Not attributed (attribution_mode ${config.attributionMode}): paid by this wallet for another token owner`);
+      } else {
+        logWarning(`  Rejected as ${transaction.transactionType}: ${outcome.transaction.rejectionReason}`);
+      }
+      if (transaction.delegator) {
+        logInfo(`  As governance delegate of: ${transaction.delegator}`);
+      }
+      if (transaction.onBehalfOf.length > 0) {
+        logInfo(`  On behalf of: ${transaction.onBehalfOf.join(', ')}`);
+      }
+      logInfo(`  Instructions (${transaction.instructions.length}):`);
+      for (const ix of transaction.instructions) {
+        const position = ix.innerIndex === null ? `#${ix.outerIndex + 1}` : `#${ix.outerIndex + 1}.${ix.innerIndex + 1}`;
+        const units = ix.computeUnits !== null ? `, ${ix.computeUnits} CU` : '';
+        logInfo(`    ${position} ${ix.name} (${ix.transactionType}${units})`);
+      }
+      if (config.costSplitRule !== CostSplitRule.PRIMARY) {
+        logInfo(`  Cost split (${config.costSplitRule}):`);
+        for (const share of allocateCost(transaction, config.costSplitRule)) {
+          logInfo(`    ${share.transactionType}: ${formatSol(share.fee + share.rentPaid - share.rentRecovered)}`);
+        }
+      }
+      if (transaction.governance) {
+        logInfo(`  Governance: ${transaction.governance}`);
+      }
+      if (transaction.proposal) {
+        logInfo(`  Proposal: ${transaction.proposal}`);
+      }
+      if (transaction.vote) {
+        const { vote } = transaction;
+        const record = vote.voteRecord
+          ? (await fetchVoteRecords(connection, membership.programIds, [vote.voteRecord])).get(vote.voteRecord)
+          : undefined;
+        const decoded = vote.kind ? vote : record?.vote;
+        logInfo(`  Vote: ${decoded?.kind ?? 'unknown'}`);
+        for (const [index, choice] of (decoded?.choices ?? []).entries()) {
+          logInfo(`    Option ${index + 1}: ${choice.weightPercentage}% (rank ${choice.rank})`);
+        }
+        logInfo(`    VoteRecord: ${vote.voteRecord ?? 'unknown'}`);
+        logInfo(`    Voter weight: ${record ? record.voterWeight : 'unknown (VoteRecord closed)'}`);
+      }
+      logInfo(`  Transaction fee: ${formatSol(transaction.transactionFee)}`);
+      logInfo(`    Base fee: ${formatSol(transaction.baseFee)}`);
+      logInfo(`    Priority fee: ${formatSol(transaction.priorityFee)}`);
+      const unitPrice = transaction.computeUnitPrice;
+      logInfo(`    Compute unit price: ${unitPrice !== null ? `${unitPrice} micro-lamports` : 'not set'}`);
+      logInfo(`    Compute unit limit: ${transaction.computeUnitLimit ?? 'default'}`);
+      logInfo(`    Compute units consumed: ${transaction.computeUnitsConsumed ?? 'unknown'}`);
+      logInfo(`    Reimbursable fee: ${formatSol(getReimbursableFee(transaction, config.priorityFeeCap))}`);
+      logInfo(`  Rent paid: ${formatSol(transaction.rentPaid)}`);
+      logInfo(`  Rent recovered: ${formatSol(transaction.rentRecovered)}`);
+      for (const event of transaction.rentEvents) {
+        const action = event.lamports > 0 ? 'created' : 'closed';
+        logInfo(`    ${action} ${event.account}: ${formatSol(Math.abs(event.lamports))}`);
+      }
+      logInfo(`  Net rent: ${formatSol(transaction.rentCost)}`);
+      logInfo(`  Net cost: ${formatSol(transaction.totalCost)}`);
+      if (config.priceSeries) {
+        const usd = valueTransaction(transaction, config.priceSeries);
+        if (usd.solPrice === null) {
+          logWarning('  USD: block time is outside the price data');
+        } else {
+          logInfo(`  USD (SOL at $${usd.solPrice.toFixed(4)}): fee ${formatUsd(usd.fee!)}, net rent ${formatUsd(usd.rent!)}, net cost ${formatUsd(usd.total!)}`);
+        }
+      }
+    }
+  }
+
+  console.log();
+  return true;
+}
@@ -0,0 +1,128 @@
+/**
+ * `ledger` command: match tracked costs against what the DAO already paid back
+ */
+
+import * as fs from 'fs';
+import { PublicKey } from '@solana/web3.js';
+import { ValidatedConfig, LedgerMatchRule, ReimbursementPayment } from '../types';
+import { formatWallet } from '../config';
+import { createRealmMembership } from '../services/realm-membership';
+import { trackWallet } from '../services/tracker';
+import { fetchRealmGovernances, deriveNativeTreasuryAddress } from '../services/governance';
+import { fetchTreasuryPayments, buildLedger } from '../services/ledger';
+import { ConfigError } from '../errors';
+import { generateReimbursementLedgerReport } from '../utils/csv-generator';
+import { displayReimbursementLedger } from '../utils/summary-display';
+import { logHeader, logInfo, logSeparator } from '../utils/logger';
+import { PayloadOptions } from './payload';
+import { connect, loadRealms } from './setup';
+
+/**
+ * Options for the reimbursement ledger (shared with `payload`)
+ * Only token payments in `mint` are valued and matched.
+ */
+export interface LedgerOptions extends PayloadOptions {
+  matchRule: LedgerMatchRule; // --match fifo|claim_period
+}
+
+/**
+ * Build the reimbursement ledger for every configured wallet and realm
+ * @returns Number of tracked costs across all ledgers
+ * @throws ConfigError if --treasury is combined with several realms
+ */
+export async function runLedger(config: ValidatedConfig, options: LedgerOptions): Promise<number> {
+  if (options.treasury && config.realmIds.length > 1) {
+    throw new ConfigError('--treasury belongs to one realm; select the realm with --realm');
+  }
+  let treasuryOverride: PublicKey | null = null;
+  if (options.treasury) {
+    try {
+      treasuryOverride = new PublicKey(options.treasury);
+    } catch {
+      throw new ConfigError(`--treasury must be a valid public key: ${options.treasury}`);
+    }
+  }
+  let tokenMint: string | null = null;
+  if (options.mint) {
+    try {
+      tokenMint = new PublicKey(options.mint).toString();
+    } catch {
+      throw new ConfigError(`--mint must be a valid public key: ${options.mint}`);
+    }
+  }
+
+  const connection = await connect(config);
+  const realms = await loadRealms(connection, config);
+  const multiRealm = realms.length > 1;
+  const wallets = new Set(config.wallets.map(wallet => wallet.address));
+
+  // Payments from each realm's native treasuries, scanned once for all wallets
+  const paymentsByRealm = new Map<string, ReimbursementPayment[]>();
+  for (const { realmId, realmData } of realms) {
+    let treasuries: PublicKey[];
+    if (treasuryOverride) {
+      treasuries = [treasuryOverride];
+    } else {
+      logInfo(`Listing governances of realm ${realmId}...`);
+      const governances = await fetchRealmGovernances(connection, realmId, realmData.programId);
+      treasuries = governances.map(governance => deriveNativeTreasuryAddress(governance, realmData.programId));
+      logInfo(`Found ${governances.length} governance(s)`);
+    }
+
+    paymentsByRealm.set(realmId, await fetchTreasuryPayments(
+      connection,
+      treasuries,
+      realmData.programId,
+      wallets,
+      config.startTimestamp,
+      config.priceSeries,
+      tokenMint,
+      options.tokenPrice
+    ));
+    logSeparator();
+  }
+
+  const membership = createRealmMembership(
+    realms.map(({ realmId, realmData }) => ({
+      realmId,
+      programId: realmData.programId,
+      voterWeightPlugins: realmData.voterWeightPlugins
+    }))
+  );
+  const window = {
+    startTimestamp: config.startTimestamp,
+    endTimestamp: config.endTimestamp
+  };
+  const rule = {
+    basis: options.basis,
+    types: options.types ? new Set(options.types) : null
+  };
+
+  fs.mkdirSync(config.outDir, { recursive: true });
+  let entryCount = 0;
+
+  for (const [index, wallet] of config.wallets.entries()) {
+    if (config.wallets.length > 1) {
+      logHeader(`Wallet ${index + 1}/${config.wallets.length}: ${formatWallet(wallet)}`);
+    }
+
+    const tracking = await trackWallet(connection, realms, membership, wallet, window, {
+      priorityFeeCap: config.priorityFeeCap,
+      costSplitRule: config.costSplitRule,
+      priceSeries: config.priceSeries,
+      reimburseFailed: config.reimburseFailed,
+      attributionMode: config.attributionMode
+    });
+
+    for (const { realmId, results } of tracking.realmResults) {
+      const payments = paymentsByRealm.get(realmId)!.filter(payment => payment.wallet === wallet.address);
+      const ledger = buildLedger([results], payments, rule, options.matchRule);
+      entryCount += ledger.entries.length;
+
+      await generateReimbursementLedgerReport(config.outDir, wallet.address, ledger, multiRealm ? realmId : undefined);
+      displayReimbursementLedger(ledger, multiRealm ? realmId : undefined);
+    }
+  }
+
+  return entryCount;
+}
@@ -0,0 +1,246 @@
+/**
+ * `payload` command: build the instructions for a reimbursement proposal
+ *
+ * Tracks every configured wallet, totals the costs eligible for reimbursement and
+ * prints (and writes to a JSON file) one payment per wallet from the realm's
+ * native treasury, base64-encoded for Realms' custom instruction field. Nothing is
+ * signed or submitted.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { PublicKey, SystemProgram, TransactionInstruction } from '@solana/web3.js';
+import { ValidatedConfig, TransactionType, ReimbursementBasis } from '../types';
+import { formatWallet } from '../config';
+import { createRealmMembership } from '../services/realm-membership';
+import { trackWallet } from '../services/tracker';
+import { fetchAccountInfo } from '../services/solana';
+import {
+  EligibleCosts,
+  MintInfo,
+  PayloadInstruction,
+  getEligibleCosts,
+  fetchMintInfo,
+  buildSolPayment,
+  buildTokenPayment,
+  serializeInstructionToBase64
+} from '../services/reimbursement';
+import { ASSOCIATED_TOKEN_PROGRAM_ID } from '../constants';
+import { ConfigError } from '../errors';
+import { formatSol, formatUsd } from '../utils/summary-display';
+import { logHeader, logInfo, logSuccess, logWarning, logSeparator } from '../utils/logger';
+import { connect, loadRealms } from './setup';
+
+/**
+ * Options for building a reimbursement payload
+ */
+export interface PayloadOptions {
+  treasury: string | null; // --treasury <pubkey>: the realm's native treasury (SOL wallet)
+  mint: string | null; // --mint <pubkey>: pay in this SPL token instead of SOL
+  tokenPrice: number; // --token-price <usd>: USD per token (default 1, for stablecoins)
+  basis: ReimbursementBasis; // --basis reimbursable|total
+  types: TransactionType[] | null; // --types <list>: eligible transaction types (default all)
+}
+
+/**
+ * Payment to one wallet in the payload file
+ */
+interface WalletPayment {
+  wallet: string;
+  label: string | null;
+  transactions: number;
+  lamports: number;
+  usd: number | null;
+  amount: string; // Paid amount in SOL or tokens
+  instructions: PayloadInstruction[];
+}
+
+/**
+ * Parse a public key option
+ * @throws ConfigError if the value is not a valid public key
+ */
+function parsePublicKey(value: string, flag: string): PublicKey {
+  try {
+    return new PublicKey(value);
+  } catch {
+    throw new ConfigError(`${flag} must be a valid public key: ${value}`);
+  }
+}
+
+/**
+ * Format an amount in a mint's base units as a decimal string
+ */
+function formatTokenAmount(amount: bigint, decimals: number): string {
+  const digits = amount.toString().padStart(decimals + 1, '0');
+  return decimals > 0
+    ? `${digits.slice(0, -decimals)}.${digits.slice(-decimals)}`
+    : digits;
+}
+
+/**
+ * Describe a payment instruction for the console and the payload file
+ */
+function describeInstruction(instruction: TransactionInstruction, amount: string, recipient: string): string {
+  if (instruction.programId.toString() === ASSOCIATED_TOKEN_PROGRAM_ID) {
+    return `Create token account for ${recipient} (if missing)`;
+  }
+  return `Transfer ${amount} to ${recipient}`;
+}
+
+/**
+ * Build the payment instructions for one wallet's eligible costs
+ * @returns The instructions and paid amount, or null if nothing is owed
+ */
+function buildPayment(
+  treasury: PublicKey,
+  recipient: PublicKey,
+  costs: EligibleCosts,
+  mint: MintInfo | null,
+  tokenPrice: number
+): { instructions: TransactionInstruction[]; amount: string } | null {
+  if (!mint) {
+    if (costs.lamports <= 0) {
+      return null;
+    }
+    return {
+      instructions: buildSolPayment(treasury, recipient, costs.lamports),
+      amount: formatSol(costs.lamports)
+    };
+  }
+
+  const baseUnits = BigInt(Math.floor(costs.usd / tokenPrice * 10 ** mint.decimals));
+  if (baseUnits <= BigInt(0)) {
+    return null;
+  }
+  return {
+    instructions: buildTokenPayment(treasury, recipient, mint, baseUnits),
+    amount: `${formatTokenAmount(baseUnits, mint.decimals)} tokens (${mint.address.toString()})`
+  };
+}
+
+/**
+ * Build a reimbursement proposal payload for every configured wallet
+ * @returns Number of wallets with a payment
+ * @throws ConfigError on missing or invalid payload options
+ */
+export async function runPayload(config: ValidatedConfig, options: PayloadOptions): Promise<number> {
+  if (!options.treasury) {
+    throw new ConfigError('payload requires --treasury <native treasury address>');
+  }
+  if (config.realmIds.length > 1) {
+    throw new ConfigError('payload pays from one realm\'s treasury; select the realm with --realm');
+  }
+  if (options.mint && !config.priceSeries) {
+    throw new ConfigError('Token reimbursement needs SOL/USD prices (usd_price_file or --prices)');
+  }
+
+  const treasury = parsePublicKey(options.treasury, '--treasury');
+  const mintAddress = options.mint ? parsePublicKey(options.mint, '--mint') : null;
+
+  const connection = await connect(config);
+  const realms = await loadRealms(connection, config);
+  const [{ realmId }] = realms;
+
+  const treasuryAccount = await fetchAccountInfo(connection, treasury);
+  if (!treasuryAccount) {
+    logWarning(`Treasury account ${treasury.toString()} does not exist yet`);
+  } else if (!treasuryAccount.owner.equals(SystemProgram.programId)) {
+    logWarning(`Treasury ${treasury.toString()} is not a native (SOL) treasury - is this the governance address?`);
+  }
+
+  const mint = mintAddress ? await fetchMintInfo(connection, mintAddress) : null;
+
+  const membership = createRealmMembership(
+    realms.map(context => ({
+      realmId: context.realmId,
+      programId: context.realmData.programId,
+      voterWeightPlugins: context.realmData.voterWeightPlugins
+    }))
+  );
+  const window = {
+    startTimestamp: config.startTimestamp,
+    endTimestamp: config.endTimestamp
+  };
+  const rule = {
+    basis: options.basis,
+    types: options.types ? new Set(options.types) : null
+  };
+
+  const payments: WalletPayment[] = [];
+
+  for (const [index, wallet] of config.wallets.entries()) {
+    if (config.wallets.length > 1) {
+      logHeader(`Wallet ${index + 1}/${config.wallets.length}: ${formatWallet(wallet)}`);
+    }
+
+    const tracking = await trackWallet(connection, realms, membership, wallet, window, {
+      priorityFeeCap: config.priorityFeeCap,
+      costSplitRule: config.costSplitRule,
+      priceSeries: config.priceSeries,
+      reimburseFailed: config.reimburseFailed,
+      attributionMode: config.attributionMode
+    });
+    const costs = getEligibleCosts(tracking.realmResults.map(entry => entry.results), rule);
+
+    if (mint && costs.unpricedCount > 0) {
+      logWarning(`${costs.unpricedCount} transaction(s) fall outside the price data and are not reimbursed in tokens`);
+    }
+
+    const payment = buildPayment(treasury, new PublicKey(wallet.address), costs, mint, options.tokenPrice);
+    if (!payment) {
+      logWarning(`Nothing to reimburse for ${formatWallet(wallet)}`);
+      logSeparator();
+      continue;
+    }
+
+    const instructions = payment.instructions.map(instruction => ({
+      description: describeInstruction(instruction, payment.amount, wallet.address),
+      programId: instruction.programId.toString(),
+      base64: serializeInstructionToBase64(instruction)
+    }));
+    payments.push({
+      wallet: wallet.address,
+      label: wallet.label,
+      transactions: costs.transactionCount,
+      lamports: costs.lamports,
+      usd: config.priceSeries ? costs.usd : null,
+      amount: payment.amount,
+      instructions
+    });
+
+    logHeader(`Reimbursement: ${formatWallet(wallet)}`);
+    logInfo(`Eligible transactions: ${costs.transactionCount}`);
+    logInfo(`Eligible cost: ${formatSol(costs.lamports)}${config.priceSeries ? ` (${formatUsd(costs.usd)})` : ''}`);
+    logInfo(`Payment: ${payment.amount}`);
+    for (const instruction of instructions) {
+      logSeparator();
+      logInfo(instruction.description);
+      console.log(instruction.base64);
+    }
+    logSeparator();
+  }
+
+  if (payments.length === 0) {
+    return 0;
+  }
+
+  fs.mkdirSync(config.outDir, { recursive: true });
+  const filepath = path.join(config.outDir, `reimbursement-payload-${realmId}.json`);
+  fs.writeFileSync(filepath, JSON.stringify({
+    realm: realmId,
+    treasury: treasury.toString(),
+    startTimestamp: config.startTimestamp,
+    endTimestamp: config.endTimestamp,
+    basis: options.basis,
+    types: options.types,
+    costSplitRule: config.costSplitRule,
+    priorityFeeCap: config.priorityFeeCap,
+    currency: mint ? mint.address.toString() : 'SOL',
+    tokenPrice: mint ? options.tokenPrice : null,
+    payments
+  }, null, 2));
+
+  logSuccess(`Payload written to ${filepath}`);
+  logInfo('Add each instruction to the proposal with Realms\' custom instruction (base64) option');
+  return payments.length;
+}
@@ -0,0 +1,57 @@
+/**
+ * Shared setup for CLI commands: RPC connection and realm lookup
+ */
+
+import { Connection } from '@solana/web3.js';
+import { ValidatedConfig } from '../types';
+import { getConnection, fetchBlockHeight } from '../services/solana';
+import { parseRealmData } from '../services/governance';
+import { RealmContext } from '../services/tracker';
+import { ConfigError, RpcError } from '../errors';
+import { logInfo, logSuccess, logSeparator } from '../utils/logger';
+
+/**
+ * Connect to the configured RPC endpoints and verify at least one responds
+ * @returns The primary endpoint's connection
+ * @throws RpcError if no endpoint is reachable
+ */
+export async function connect(config: ValidatedConfig): Promise<Connection> {
+  logInfo('Connecting to Solana RPC...');
+  const connection = getConnection(config.rpcEndpoints, config.rpcStrategy, config.rpcMethodCosts);
+
+  try {
+    const blockHeight = await fetchBlockHeight(connection);
+    logSuccess(`Connected to Solana (block height: ${blockHeight})`);
+  } catch (error) {
+    throw new RpcError(`Failed to connect to RPC: ${(error as Error).message}`);
+  }
+
+  logSeparator();
+  return connection;
+}
+
+/**
+ * Parse every configured realm to get its governing mints and governance program
+ * @throws ConfigError if a realm cannot be parsed
+ */
+export async function loadRealms(
+  connection: Connection,
+  config: ValidatedConfig
+): Promise<RealmContext[]> {
+  const allowedPrograms = config.governanceProgramOverride
+    ? [config.governanceProgramOverride]
+    : config.allowedGovernancePrograms;
+  const realms: RealmContext[] = [];
+
+  for (const realmId of config.realmIds) {
+    logInfo(`Fetching realm data for ${realmId}...`);
+    const realmData = await parseRealmData(connection, realmId, allowedPrograms);
+    if (!realmData) {
+      throw new ConfigError(`Failed to parse realm data for ${realmId}. Cannot proceed.`);
+    }
+    realms.push({ realmId, realmData });
+  }
+
+  logSeparator();
+  return realms;
+}
@@ -0,0 +1,186 @@
+/**
+ * `track` and `summary` commands: run the full tracking pipeline
+ */
+
+import * as fs from 'fs';
+import { ValidatedConfig, WalletResults } from '../types';
+import { formatWallet } from '../config';
+import { createRealmMembership } from '../services/realm-membership';
+import { trackWallet } from '../services/tracker';
+import { getRpcUsage } from '../services/solana';
+import {
+  getCheckpointKey,
+  openCheckpoint,
+  saveCheckpoint,
+  clearCheckpoint,
+  getCheckpointPath
+} from '../services/checkpoint';
+import { installInterruptHandler, removeInterruptHandler } from '../utils/interrupt';
+import { InterruptedError } from '../errors';
+import {
+  generateCsvReport,
+  generateRollupReport,
+  generateRealmOverviewReport
+} from '../utils/csv-generator';
+import {
+  displayResults,
+  displayCostRollup,
+  displayRejected,
+  displayPaidForOthers,
+  displayEmptyResults,
+  displayRollup,
+  displayRealmOverview,
+  displayRpcUsage
+} from '../utils/summary-display';
+import { logHeader, logInfo, logWarning, logSeparator } from '../utils/logger';
+import { connect, loadRealms } from './setup';
+
+/**
+ * Options for a tracking run
+ */
+export interface TrackOptions {
+  writeReports: boolean; // false for `summary` (console output only)
+  checkpointDir: string; // Directory checkpoints are stored under
+  resume: boolean; // false for --no-resume (discard saved progress)
+}
+
+/**
+ * Track every configured wallet across every configured realm
+ *
+ * Progress is checkpointed so a failed or interrupted run can be resumed by
+ * running again with the same parameters. On SIGINT, partial reports are written
+ * for the wallets processed so far.
+ *
+ * @returns Number of governance transactions tracked across all wallets and realms
+ * @throws InterruptedError after writing partial reports when interrupted
+ */
+export async function runTrack(config: ValidatedConfig, options: TrackOptions): Promise<number> {
+  openCheckpoint(options.checkpointDir, getCheckpointKey(config), options.resume);
+  installInterruptHandler();
+
+  try {
+    const trackedCount = await trackAllWallets(config, options);
+    clearCheckpoint();
+    return trackedCount;
+  } catch (error) {
+    saveCheckpoint(true);
+    if (!(error instanceof InterruptedError)) {
+      logWarning(`Progress saved to ${getCheckpointPath()} - run again with the same parameters to resume`);
+    }
+    throw error;
+  } finally {
+    displayRpcUsage(getRpcUsage());
+    removeInterruptHandler();
+  }
+}
+
+/**
+ * Run the tracking pipeline for each wallet and write its reports
+ * @throws InterruptedError once partial reports are written
+ */
+async function trackAllWallets(config: ValidatedConfig, options: TrackOptions): Promise<number> {
+  // Initialize Solana connection with rate limiting (shared by all wallets)
+  const connection = await connect(config);
+
+  // Parse each realm to get governing mints (looked up once for all wallets)
+  const realms = await loadRealms(connection, config);
+
+  const membership = createRealmMembership(
+    realms.map(({ realmId, realmData }) => ({
+      realmId,
+      programId: realmData.programId,
+      voterWeightPlugins: realmData.voterWeightPlugins
+    }))
+  );
+  const window = {
+    startTimestamp: config.startTimestamp,
+    endTimestamp: config.endTimestamp
+  };
+  const multiRealm = realms.length > 1;
+
+  if (options.writeReports) {
+    fs.mkdirSync(config.outDir, { recursive: true });
+  }
+
+  // Track each wallet and generate its per-realm reports
+  const walletResultsByRealm = new Map<string, WalletResults[]>(
+    config.realmIds.map(realmId => [realmId, []])
+  );
+  let trackedCount = 0;
+  let interrupted = false;
+
+  for (const [index, wallet] of config.wallets.entries()) {
+    if (config.wallets.length > 1) {
+      logHeader(`Wallet ${index + 1}/${config.wallets.length}: ${formatWallet(wallet)}`);
+    }
+
+    const tracking = await trackWallet(connection, realms, membership, wallet, window, {
+      priorityFeeCap: config.priorityFeeCap,
+      costSplitRule: config.costSplitRule,
+      priceSeries: config.priceSeries,
+      reimburseFailed: config.reimburseFailed,
+      attributionMode: config.attributionMode
+    });
+
+    for (const { realmId, results } of tracking.realmResults) {
+      walletResultsByRealm.get(realmId)!.push({ wallet, results });
+      trackedCount += results.transactions.length;
+
+      if (results.transactions.length === 0 && results.paidForOthers.length === 0) {
+        displayEmptyResults(wallet.address, realmId);
+        if (!multiRealm) {
+          displayRejected(results.rejected);
+        }
+        continue;
+      }
+
+      // Generate CSV
+      if (options.writeReports) {
+        logInfo(multiRealm ? `Generating report for realm ${realmId}...` : 'Generating report...');
+        await generateCsvReport(config.outDir, wallet.address, results, multiRealm ? realmId : undefined);
+        logSeparator();
+      }
+
+      // Display summary
+      displayResults(results, multiRealm ? realmId : undefined);
+      displayCostRollup(results);
+      displayPaidForOthers(results);
+      if (!multiRealm) {
+        displayRejected(results.rejected);
+      }
+    }
+
+    // Cross-realm overview for this wallet
+    if (multiRealm) {
+      if (options.writeReports) {
+        await generateRealmOverviewReport(config.outDir, wallet.address, tracking.realmResults, tracking.rejected);
+      }
+      displayRealmOverview(tracking.realmResults);
+      displayRejected(tracking.rejected);
+    }
+
+    // Remaining wallets are left for the resumed run
+    if (!tracking.complete) {
+      interrupted = true;
+      break;
+    }
+  }
+
+  // Combined roll-up comparing wallets, per realm
+  if (config.wallets.length > 1) {
+    for (const [realmId, walletResults] of walletResultsByRealm) {
+      if (options.writeReports) {
+        await generateRollupReport(config.outDir, realmId, walletResults);
+      }
+      displayRollup(walletResults, multiRealm ? realmId : undefined);
+    }
+  }
+
+  if (interrupted) {
+    throw new InterruptedError(
+      `Run interrupted - partial results reported. Progress saved to ${getCheckpointPath()}; run again with the same parameters to resume`
+    );
+  }
+
+  return trackedCount;
+}
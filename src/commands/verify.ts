@@ -0,0 +1,52 @@
+/**
+ * `verify` command: check config, RPC connectivity, realms and TokenOwnerRecords
+ * without fetching any transaction history
+ */
+
+import { ValidatedConfig } from '../types';
+import { formatWallet } from '../config';
+import { fetchGoverningTokenOwnerRecords, fetchDelegatedTokenOwnerRecords } from '../services/governance';
+import { logHeader, logInfo, logSuccess, logWarning, logSeparator } from '../utils/logger';
+import { connect, loadRealms } from './setup';
+
+/**
+ * Verify that every configured realm and wallet can be tracked
+ * Throws ConfigError or RpcError on failure
+ */
+export async function runVerify(config: ValidatedConfig): Promise<void> {
+  const connection = await connect(config);
+  const realms = await loadRealms(connection, config);
+
+  for (const { realmId, realmData } of realms) {
+    logHeader(`Realm ${realmId}`);
+    logInfo(`Governance program: ${realmData.programId.toString()}`);
+    logInfo(`Community mint: ${realmData.communityMint.toString()}`);
+    logInfo(`Council mint: ${realmData.councilMint ? realmData.councilMint.toString() : 'none'}`);
+    logSeparator();
+
+    for (const wallet of config.wallets) {
+      logInfo(`Wallet ${formatWallet(wallet)}`);
+      const records = await fetchGoverningTokenOwnerRecords(connection, realmId, realmData, wallet.address);
+
+      for (const record of records) {
+        if (record.exists) {
+          logSuccess(`  ${record.kind} TokenOwnerRecord: ${record.address.toString()}`);
+        } else {
+          logWarning(`  ${record.kind} TokenOwnerRecord not found: ${record.address.toString()}`);
+        }
+      }
+
+      const delegated = await fetchDelegatedTokenOwnerRecords(connection, realmId, realmData, wallet.address);
+      for (const record of delegated) {
+        logSuccess(`  ${record.kind} TokenOwnerRecord delegated by ${record.delegator}: ${record.address.toString()}`);
+      }
+
+      if (!records.some(record => record.exists) && delegated.length === 0) {
+        logWarning('  No TokenOwnerRecord found - only wallet-signed transactions will be discovered');
+      }
+    }
+  }
+
+  console.log();
+  logSuccess('Configuration verified');
+}
@@ -6,69 +6,124 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { config as loadEnv } from 'dotenv';
 import { PublicKey } from '@solana/web3.js';
-import { AppConfig, ValidatedConfig } from './types';
+import {
+  AppConfig,
+  ValidatedConfig,
+  WalletTarget,
+  ConfigOverrides,
+  CostSplitRule,
+  AttributionMode,
+  PricePoint,
+  RpcEndpoint,
+  RpcStrategy
+} from './types';
 import {
   parseDateToTimestamp,
   parseEndDateToTimestamp,
   getCurrentEndOfDayTimestamp,
-  isValidDateFormat
+  isValidDateFormat,
+  formatTimestamp
 } from './utils/date-utils';
 import { logError, logInfo } from './utils/logger';
-import { DEFAULT_RPS } from './constants';
+import { DEFAULT_RPS, GOVERNANCE_PROGRAM_ID } from './constants';
+import { ConfigError } from './errors';
+import { loadPriceSeries } from './services/pricing';
+import { describeRpcEndpoint } from './services/solana';
 
 /**
- * Load and validate configuration from config.json and .env
- * @returns Validated configuration object
+ * Read config.json (or the file given with --config)
+ * The default config.json may be missing when CLI flags supply every required field
  */
-export function loadConfig(): ValidatedConfig {
-  // Load environment variables
-  loadEnv();
+function readConfigFile(configPath: string | undefined, hasOverrides: boolean): AppConfig {
+  const resolvedPath = configPath
+    ? path.resolve(configPath)
+    : path.join(process.cwd(), 'config.json');
+  const displayName = configPath || 'config.json';
 
-  const rpcUrl = process.env.RPC_URL;
-  if (!rpcUrl) {
-    logError('RPC_URL not found in .env file');
-    throw new Error('RPC_URL environment variable is required');
-  }
-
-  // Load config.json
-  const configPath = path.join(process.cwd(), 'config.json');
-  
-  if (!fs.existsSync(configPath)) {
-    logError('config.json not found in project root');
-    throw new Error('config.json file is required');
+  if (!fs.existsSync(resolvedPath)) {
+    if (!configPath && hasOverrides) {
+      return {};
+    }
+    logError(`${displayName} not found`);
+    throw new ConfigError(`${displayName} file is required`);
   }
 
-  const configContent = fs.readFileSync(configPath, 'utf-8');
-  let appConfig: AppConfig;
+  const configContent = fs.readFileSync(resolvedPath, 'utf-8');
 
   try {
-    appConfig = JSON.parse(configContent);
+    return JSON.parse(configContent);
   } catch (error) {
-    logError('Failed to parse config.json');
-    throw new Error('Invalid JSON in config.json');
+    logError(`Failed to parse ${displayName}`);
+    throw new ConfigError(`Invalid JSON in ${displayName}`);
   }
+}
 
-  // Validate realm_id
-  if (!appConfig.realm_id) {
-    throw new Error('realm_id is required in config.json');
+/**
+ * Apply CLI flag overrides on top of the loaded config file
+ */
+function applyOverrides(appConfig: AppConfig, overrides: ConfigOverrides): AppConfig {
+  const merged: AppConfig = { ...appConfig };
+
+  if (overrides.realm !== undefined) {
+    merged.realm_id = overrides.realm;
+    delete merged.realm_ids;
   }
-  
-  try {
-    new PublicKey(appConfig.realm_id);
-  } catch {
-    throw new Error(`Invalid realm_id public key: ${appConfig.realm_id}`);
+  if (overrides.wallet !== undefined) {
+    merged.wallet_address = overrides.wallet;
+    delete merged.wallets;
   }
-
-  // Validate wallet_address
-  if (!appConfig.wallet_address) {
-    throw new Error('wallet_address is required in config.json');
+  if (overrides.from !== undefined) {
+    merged.start_date = overrides.from;
+  }
+  if (overrides.to !== undefined) {
+    merged.end_date = overrides.to;
+  }
+  if (overrides.rps !== undefined) {
+    merged.rps = overrides.rps;
+  }
+  if (overrides.prices !== undefined) {
+    merged.usd_price_file = overrides.prices;
+  }
+  if (overrides.attribution !== undefined) {
+    merged.attribution_mode = overrides.attribution;
   }
 
+  return merged;
+}
+
+/**
+ * Load and validate configuration from config.json, .env and CLI flag overrides
+ * @param overrides - Values from CLI flags, taking precedence over config.json
+ * @returns Validated configuration object
+ */
+export function loadConfig(overrides: ConfigOverrides = {}): ValidatedConfig {
   try {
-    new PublicKey(appConfig.wallet_address);
-  } catch {
-    throw new Error(`Invalid wallet_address public key: ${appConfig.wallet_address}`);
+    return validateConfig(overrides);
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      throw error;
+    }
+    throw new ConfigError((error as Error).message);
   }
+}
+
+/**
+ * Build the validated configuration, throwing on the first invalid field
+ */
+function validateConfig(overrides: ConfigOverrides): ValidatedConfig {
+  // Load environment variables
+  loadEnv();
+
+  // Load config.json and apply CLI overrides
+  const { configPath, outDir, ...fieldOverrides } = overrides;
+  const hasOverrides = Object.values(fieldOverrides).some(value => value !== undefined);
+  const appConfig = applyOverrides(readConfigFile(configPath, hasOverrides), fieldOverrides);
+
+  // Validate realm_id / realm_ids (at least one realm is required)
+  const realmIds = parseRealmIds(appConfig);
+
+  // Validate wallet_address / wallets (at least one wallet is required)
+  const wallets = parseWallets(appConfig);
 
   // Validate start_date
   if (!appConfig.start_date) {
@@ -108,16 +163,273 @@ export function loadConfig(): ValidatedConfig {
     rps = appConfig.rps;
   }
 
+  // Validate RPC_URL / rpc_endpoints (at least one endpoint is required)
+  const rpcEndpoints = parseRpcEndpoints(appConfig, process.env.RPC_URL, rps);
+
+  // Validate rpc_strategy (optional, defaults to failover)
+  let rpcStrategy = RpcStrategy.FAILOVER;
+  if (appConfig.rpc_strategy !== undefined) {
+    const strategies = Object.values(RpcStrategy) as string[];
+    if (!strategies.includes(appConfig.rpc_strategy)) {
+      throw new Error(`rpc_strategy must be one of: ${strategies.join(', ')}`);
+    }
+    rpcStrategy = appConfig.rpc_strategy as RpcStrategy;
+  }
+
+  // Validate rpc_method_costs (optional, overrides the default token cost per method)
+  let rpcMethodCosts: Record<string, number> = {};
+  if (appConfig.rpc_method_costs !== undefined) {
+    const costs = appConfig.rpc_method_costs;
+    if (typeof costs !== 'object' || costs === null || Array.isArray(costs)) {
+      throw new Error('rpc_method_costs must be an object of RPC method names to token costs');
+    }
+    for (const [method, cost] of Object.entries(costs)) {
+      if (typeof cost !== 'number' || !Number.isFinite(cost) || cost <= 0) {
+        throw new Error(`rpc_method_costs.${method} must be a positive number`);
+      }
+    }
+    rpcMethodCosts = costs;
+  }
+
+  // Validate governance_program_id (optional override)
+  let governanceProgramOverride: string | null = null;
+  if (appConfig.governance_program_id) {
+    try {
+      new PublicKey(appConfig.governance_program_id);
+    } catch {
+      throw new Error(`Invalid governance_program_id public key: ${appConfig.governance_program_id}`);
+    }
+    governanceProgramOverride = appConfig.governance_program_id;
+  }
+
+  // Validate governance_program_ids (optional allow-list, defaults to the shared instance)
+  let allowedGovernancePrograms = [GOVERNANCE_PROGRAM_ID];
+  if (appConfig.governance_program_ids !== undefined) {
+    if (!Array.isArray(appConfig.governance_program_ids) || appConfig.governance_program_ids.length === 0) {
+      throw new Error('governance_program_ids must be a non-empty array of public keys');
+    }
+    for (const programId of appConfig.governance_program_ids) {
+      try {
+        new PublicKey(programId);
+      } catch {
+        throw new Error(`Invalid governance_program_ids entry: ${programId}`);
+      }
+    }
+    allowedGovernancePrograms = appConfig.governance_program_ids;
+  }
+
+  // Validate max_priority_fee_lamports (optional, defaults to no cap)
+  let priorityFeeCap: number | null = null;
+  if (appConfig.max_priority_fee_lamports !== undefined) {
+    const cap = appConfig.max_priority_fee_lamports;
+    if (typeof cap !== 'number' || !Number.isInteger(cap) || cap < 0) {
+      throw new Error('max_priority_fee_lamports must be a non-negative integer');
+    }
+    priorityFeeCap = cap;
+  }
+
+  // Validate cost_split_rule (optional, defaults to the primary instruction)
+  let costSplitRule = CostSplitRule.PRIMARY;
+  if (appConfig.cost_split_rule !== undefined) {
+    const rules = Object.values(CostSplitRule) as string[];
+    if (!rules.includes(appConfig.cost_split_rule)) {
+      throw new Error(`cost_split_rule must be one of: ${rules.join(', ')}`);
+    }
+    costSplitRule = appConfig.cost_split_rule as CostSplitRule;
+  }
+
+  // Load usd_price_file (optional, enables USD valuation)
+  let priceSeries: PricePoint[] | null = null;
+  if (appConfig.usd_price_file) {
+    priceSeries = loadPriceSeries(path.resolve(appConfig.usd_price_file));
+  }
+
+  // Validate reimburse_failed_transactions (optional, defaults to leaving them out)
+  let reimburseFailed = false;
+  if (appConfig.reimburse_failed_transactions !== undefined) {
+    if (typeof appConfig.reimburse_failed_transactions !== 'boolean') {
+      throw new Error('reimburse_failed_transactions must be true or false');
+    }
+    reimburseFailed = appConfig.reimburse_failed_transactions;
+  }
+
+  // Validate attribution_mode (optional, defaults to transactions the wallet paid for)
+  let attributionMode = AttributionMode.FEE_PAYER;
+  if (appConfig.attribution_mode !== undefined) {
+    const modes = Object.values(AttributionMode) as string[];
+    if (!modes.includes(appConfig.attribution_mode)) {
+      throw new Error(`attribution_mode must be one of: ${modes.join(', ')}`);
+    }
+    attributionMode = appConfig.attribution_mode as AttributionMode;
+  }
+
   return {
-    realmId: appConfig.realm_id,
-    walletAddress: appConfig.wallet_address,
+    realmIds,
+    wallets,
+    outDir: path.resolve(outDir || process.cwd()),
     startTimestamp,
     endTimestamp,
-    rpcUrl,
-    rps
+    rpcEndpoints,
+    rpcStrategy,
+    rpcMethodCosts,
+    rps,
+    governanceProgramOverride,
+    allowedGovernancePrograms,
+    priorityFeeCap,
+    costSplitRule,
+    priceSeries,
+    reimburseFailed,
+    attributionMode
   };
 }
 
+/**
+ * Collect the realms to track from realm_id and the realm_ids list
+ */
+function parseRealmIds(appConfig: AppConfig): string[] {
+  const realmIds: string[] = [];
+
+  if (appConfig.realm_id) {
+    realmIds.push(appConfig.realm_id);
+  }
+
+  if (appConfig.realm_ids !== undefined) {
+    if (!Array.isArray(appConfig.realm_ids)) {
+      throw new Error('realm_ids must be an array of realm public keys');
+    }
+    realmIds.push(...appConfig.realm_ids);
+  }
+
+  if (realmIds.length === 0) {
+    throw new Error('realm_id or realm_ids is required in config.json');
+  }
+
+  for (const realmId of realmIds) {
+    try {
+      new PublicKey(realmId);
+    } catch {
+      throw new Error(`Invalid realm public key: ${realmId}`);
+    }
+  }
+
+  if (new Set(realmIds).size !== realmIds.length) {
+    throw new Error('Duplicate realm in config.json');
+  }
+
+  return realmIds;
+}
+
+/**
+ * Collect the wallets to track from wallet_address and the wallets list
+ */
+function parseWallets(appConfig: AppConfig): WalletTarget[] {
+  const wallets: WalletTarget[] = [];
+
+  if (appConfig.wallet_address) {
+    wallets.push({ address: appConfig.wallet_address, label: null });
+  }
+
+  if (appConfig.wallets !== undefined) {
+    if (!Array.isArray(appConfig.wallets)) {
+      throw new Error('wallets must be an array of addresses or { address, label } objects');
+    }
+    for (const entry of appConfig.wallets) {
+      if (typeof entry === 'string') {
+        wallets.push({ address: entry, label: null });
+      } else if (entry && typeof entry.address === 'string') {
+        wallets.push({ address: entry.address, label: entry.label?.trim() || null });
+      } else {
+        throw new Error('Each wallets entry must be an address or { address, label } object');
+      }
+    }
+  }
+
+  if (wallets.length === 0) {
+    throw new Error('wallet_address or wallets is required in config.json');
+  }
+
+  const seen = new Set<string>();
+  for (const wallet of wallets) {
+    try {
+      new PublicKey(wallet.address);
+    } catch {
+      throw new Error(`Invalid wallet public key: ${wallet.address}`);
+    }
+    if (seen.has(wallet.address)) {
+      throw new Error(`Duplicate wallet in config.json: ${wallet.address}`);
+    }
+    seen.add(wallet.address);
+  }
+
+  return wallets;
+}
+
+/**
+ * Collect the RPC endpoints from RPC_URL and the rpc_endpoints list
+ * RPC_URL, when set, is the primary endpoint; rpc_endpoints follow in priority order.
+ * Endpoints without their own rps use the default rate limit.
+ */
+function parseRpcEndpoints(appConfig: AppConfig, rpcUrl: string | undefined, defaultRps: number): RpcEndpoint[] {
+  const endpoints: RpcEndpoint[] = [];
+
+  if (rpcUrl) {
+    endpoints.push({ url: rpcUrl, rps: defaultRps, archival: false });
+  }
+
+  if (appConfig.rpc_endpoints !== undefined) {
+    if (!Array.isArray(appConfig.rpc_endpoints)) {
+      throw new Error('rpc_endpoints must be an array of URLs or { url, rps, archival } objects');
+    }
+    for (const entry of appConfig.rpc_endpoints) {
+      if (typeof entry === 'string') {
+        endpoints.push({ url: entry, rps: defaultRps, archival: false });
+        continue;
+      }
+      if (!entry || typeof entry.url !== 'string') {
+        throw new Error('Each rpc_endpoints entry must be a URL or { url, rps, archival } object');
+      }
+      if (entry.rps !== undefined && (typeof entry.rps !== 'number' || !Number.isInteger(entry.rps) || entry.rps <= 0)) {
+        throw new Error(`rps of RPC endpoint ${describeRpcEndpoint(entry.url)} must be a positive integer`);
+      }
+      if (entry.archival !== undefined && typeof entry.archival !== 'boolean') {
+        throw new Error(`archival of RPC endpoint ${describeRpcEndpoint(entry.url)} must be true or false`);
+      }
+      endpoints.push({ url: entry.url, rps: entry.rps ?? defaultRps, archival: entry.archival ?? false });
+    }
+  }
+
+  if (endpoints.length === 0) {
+    logError('RPC_URL not found in .env file');
+    throw new Error('RPC_URL environment variable or rpc_endpoints in config.json is required');
+  }
+
+  const seen = new Set<string>();
+  for (const endpoint of endpoints) {
+    let protocol: string;
+    try {
+      protocol = new URL(endpoint.url).protocol;
+    } catch {
+      throw new Error(`Invalid RPC endpoint URL: ${endpoint.url}`);
+    }
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      throw new Error(`RPC endpoint must be an http(s) URL: ${describeRpcEndpoint(endpoint.url)}`);
+    }
+    if (seen.has(endpoint.url)) {
+      throw new Error(`Duplicate RPC endpoint: ${describeRpcEndpoint(endpoint.url)}`);
+    }
+    seen.add(endpoint.url);
+  }
+
+  return endpoints;
+}
+
+/**
+ * Format a wallet for display, including its label when set
+ */
+export function formatWallet(wallet: WalletTarget): string {
+  return wallet.label ? `${wallet.label} (${wallet.address})` : wallet.address;
+}
+
 /**
  * Display loaded configuration
  */
@@ -125,9 +437,56 @@ export function displayConfig(config: ValidatedConfig): void {
   const startDate = new Date(config.startTimestamp * 1000).toISOString().split('T')[0];
   const endDate = new Date(config.endTimestamp * 1000).toISOString().split('T')[0];
 
-  logInfo(`Realm ID: ${config.realmId}`);
-  logInfo(`Wallet: ${config.walletAddress}`);
+  if (config.realmIds.length === 1) {
+    logInfo(`Realm ID: ${config.realmIds[0]}`);
+  } else {
+    logInfo(`Realms: ${config.realmIds.length}`);
+    for (const realmId of config.realmIds) {
+      logInfo(`  - ${realmId}`);
+    }
+  }
+  if (config.wallets.length === 1) {
+    logInfo(`Wallet: ${formatWallet(config.wallets[0])}`);
+  } else {
+    logInfo(`Wallets: ${config.wallets.length}`);
+    for (const wallet of config.wallets) {
+      logInfo(`  - ${formatWallet(wallet)}`);
+    }
+  }
   logInfo(`Date Range: ${startDate} to ${endDate}`);
-  logInfo(`RPC Rate Limit: ${config.rps} requests/second`);
+  if (config.rpcEndpoints.length === 1) {
+    logInfo(`RPC Rate Limit: ${config.rps} requests/second`);
+  } else {
+    logInfo(`RPC Endpoints: ${config.rpcEndpoints.length} (${config.rpcStrategy})`);
+    for (const endpoint of config.rpcEndpoints) {
+      logInfo(`  - ${describeRpcEndpoint(endpoint.url)}: ${endpoint.rps} requests/second${endpoint.archival ? ', archival' : ''}`);
+    }
+  }
+  for (const [method, cost] of Object.entries(config.rpcMethodCosts)) {
+    logInfo(`RPC Method Cost: ${method} = ${cost} requests`);
+  }
+  if (config.outDir !== process.cwd()) {
+    logInfo(`Output Directory: ${config.outDir}`);
+  }
+  if (config.governanceProgramOverride) {
+    logInfo(`Governance Program (override): ${config.governanceProgramOverride}`);
+  }
+  if (config.priorityFeeCap !== null) {
+    logInfo(`Priority Fee Cap: ${config.priorityFeeCap} lamports per transaction`);
+  }
+  if (config.costSplitRule !== CostSplitRule.PRIMARY) {
+    logInfo(`Cost Split Rule: ${config.costSplitRule}`);
+  }
+  if (config.reimburseFailed) {
+    logInfo('Failed transactions: reimbursed');
+  }
+  if (config.attributionMode !== AttributionMode.FEE_PAYER) {
+    logInfo(`Attribution Mode: ${config.attributionMode}`);
+  }
+  if (config.priceSeries) {
+    const first = config.priceSeries[0].timestamp;
+    const last = config.priceSeries[config.priceSeries.length - 1].timestamp;
+    logInfo(`SOL/USD Prices: ${config.priceSeries.length} points, ${formatTimestamp(first)} to ${formatTimestamp(last)}`);
+  }
 }
 
@@ -3,7 +3,8 @@
  */
 
 /**
- * SPL Governance Program ID (mainnet)
+ * SPL Governance Program ID (mainnet, shared instance)
+ * Realms on their own program deployment are detected from the realm account owner
  */
 export const GOVERNANCE_PROGRAM_ID = 'GovER5Lthms3bLBqWub97yVrMmEogzX7xNjdXpPPCVZw';
 
@@ -12,26 +13,127 @@ export const GOVERNANCE_PROGRAM_ID = 'GovER5Lthms3bLBqWub97yVrMmEogzX7xNjdXpPPCV
  */
 export const GOVERNANCE_CHAT_PROGRAM_ID = 'gCHAtYKrUUktTVzE4hEnZdLV4LXrdBf6Hh9qMaJALET';
 
+/**
+ * Compute Budget Program ID (SetComputeUnitLimit / SetComputeUnitPrice)
+ */
+export const COMPUTE_BUDGET_PROGRAM_ID = 'ComputeBudget111111111111111111111111111111';
+
+/**
+ * SPL Token and Token-2022 program IDs (reimbursement payments in tokens)
+ */
+export const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+export const TOKEN_2022_PROGRAM_ID = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb';
+
+/**
+ * Associated Token Account program ID
+ */
+export const ASSOCIATED_TOKEN_PROGRAM_ID = 'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL';
+
 /**
  * Lamports per SOL
  */
 export const LAMPORTS_PER_SOL = 1_000_000_000;
 
+/**
+ * Base fee charged per transaction signature
+ */
+export const LAMPORTS_PER_SIGNATURE = 5000;
+
 /**
  * Maximum signatures to fetch per RPC call
  */
 export const MAX_SIGNATURES_PER_FETCH = 1000;
 
 /**
- * Concurrent RPC requests limit (to avoid rate limiting)
+ * Maximum accounts per getMultipleAccountsInfo call
+ */
+export const MAX_ACCOUNTS_PER_FETCH = 100;
+
+/**
+ * Concurrent RPC requests limit (to avoid rate limiting), also the number of
+ * transaction fetch workers
  */
 export const MAX_CONCURRENT_REQUESTS = 10;
 
+/**
+ * Transactions fetched per JSON-RPC batch request
+ */
+export const TRANSACTIONS_PER_BATCH_REQUEST = 20;
+
 /**
  * Default requests per second limit for RPC calls
  */
 export const DEFAULT_RPS = 10;
 
+/**
+ * Default directory for the on-disk RPC response cache
+ */
+export const DEFAULT_CACHE_DIR = '.cache';
+
+/**
+ * Minimum transaction age before it is cached (well past finalization)
+ */
+export const CACHE_FINALITY_AGE_SECONDS = 120;
+
+/**
+ * Default age (days since last access) after which `cache prune` removes entries
+ */
+export const DEFAULT_CACHE_PRUNE_DAYS = 30;
+
+/**
+ * Transactions fetched and parsed between checkpoint saves
+ */
+export const TRANSACTION_CHECKPOINT_INTERVAL = 200;
+
+/**
+ * Minimum time between checkpoint writes while fetching signature pages
+ */
+export const CHECKPOINT_SAVE_INTERVAL_MS = 5000;
+
+/**
+ * CLI exit codes
+ */
+export const EXIT_CODES = {
+  success: 0,
+  unexpectedError: 1,
+  configError: 2,
+  rpcError: 3,
+  noTransactions: 4,
+  interrupted: 130 // 128 + SIGINT
+} as const;
+
+/**
+ * Rate limiter tokens charged per RPC method (methods not listed cost 1)
+ * Providers bill scans and batched lookups well above single-item calls;
+ * override with rpc_method_costs in config.json
+ */
+export const DEFAULT_RPC_METHOD_COSTS: Record<string, number> = {
+  getProgramAccounts: 10,
+  getMultipleAccounts: 2
+};
+
+/**
+ * Adaptive rate limiting: slow down on 429 responses, then speed back up
+ */
+export const ADAPTIVE_RATE_CONFIG = {
+  slowdownFactor: 0.5, // Rate multiplier applied on a 429 response
+  minRateFactor: 0.1, // Floor, as a fraction of the configured rps
+  recoveryStep: 0.1, // Fraction of the configured rps regained per recovery interval
+  recoveryIntervalMs: 2000, // Minimum time between speed-ups, without 429s
+  pauseMs: 1000, // Pause after a 429 without Retry-After, doubled on each consecutive 429
+  maxPauseMs: 60000 // Cap on any pause, including Retry-After
+};
+
+/**
+ * RPC endpoint health scoring
+ */
+export const ENDPOINT_HEALTH_CONFIG = {
+  smoothing: 0.2, // Weight of the newest request in the moving error rate and latency
+  maxErrorRate: 0.5, // Endpoints failing more often than this are passed over while a healthier one is available
+  slowFactor: 3, // Endpoints this many times slower than the fastest (for the same method) are passed over
+  staleMs: 60000 // Health older than this is ignored, so a passed-over endpoint gets tried again
+};
+
 /**
  * Retry configuration
  */
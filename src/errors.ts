@@ -0,0 +1,33 @@
+/**
+ * Error types that map to distinct CLI exit codes
+ */
+
+/**
+ * Invalid or missing configuration, CLI flags or arguments
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * RPC request failed after all retries, or the RPC endpoint is unreachable
+ */
+export class RpcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RpcError';
+  }
+}
+
+/**
+ * The run was interrupted (SIGINT) after saving a checkpoint
+ */
+export class InterruptedError extends Error {
+  constructor(message: string = 'Run interrupted') {
+    super(message);
+    this.name = 'InterruptedError';
+  }
+}
@@ -0,0 +1,918 @@
+/**
+ * Version-aware decoder for SPL Governance accounts
+ *
+ * Governance accounts are plain borsh structs whose first byte is the account type
+ * (see GovernanceAccountType), with no Anchor discriminator. The type byte selects
+ * both the struct and its version, so every account is decoded by switching on it:
+ * - Realm V1/V2, RealmConfig
+ * - Governance V1/V2 (generic, program, mint and token governances)
+ * - TokenOwnerRecord V1/V2
+ * - Proposal V1/V2, ProposalInstruction V1 / ProposalTransaction V2
+ * - SignatoryRecord V1/V2, VoteRecord V1/V2
+ * - RequiredSignatory, ProposalDeposit
+ * Voter weight plugin records and registrars are decoded as far as their realm.
+ *
+ * Discovery queries (getProgramAccounts) match the type byte at offset 0 plus the
+ * fixed field offsets exported here, never an account size: sizes differ between
+ * versions and grow with variable-length fields.
+ */
+
+import { PublicKey, GetProgramAccountsFilter } from '@solana/web3.js';
+import { GovernanceAccountType, VoteKind, VoteChoice } from '../types';
+
+const PUBKEY_SIZE = 32;
+
+/**
+ * TokenOwnerRecord field offsets (identical for V1 and V2)
+ * - account_type: 1 byte (offset 0)
+ * - realm: 32 bytes (offset 1)
+ * - governing_token_mint: 32 bytes (offset 33)
+ * - governing_token_owner: 32 bytes (offset 65)
+ * - deposit amount, vote and proposal counters, version and reserved bytes (offset 97)
+ * - governance_delegate: Option<Pubkey> = 1 + 32 bytes (offset 121)
+ */
+export const TOKEN_OWNER_RECORD_OFFSETS = {
+  realm: 1,
+  governingTokenMint: 33,
+  governingTokenOwner: 65,
+  governanceDelegate: 121
+} as const;
+
+/**
+ * VoteRecord field offsets (identical for V1 and V2)
+ * - account_type: 1 byte (offset 0)
+ * - proposal: 32 bytes (offset 1)
+ * - governing_token_owner: 32 bytes (offset 33)
+ */
+export const VOTE_RECORD_OFFSETS = {
+  proposal: 1,
+  governingTokenOwner: 33
+} as const;
+
+/**
+ * Offset of the realm in Governance and RealmConfig accounts
+ */
+export const GOVERNANCE_REALM_OFFSET = 1;
+
+export const TOKEN_OWNER_RECORD_TYPES = [
+  GovernanceAccountType.TokenOwnerRecordV1,
+  GovernanceAccountType.TokenOwnerRecordV2
+];
+
+export const VOTE_RECORD_TYPES = [
+  GovernanceAccountType.VoteRecordV1,
+  GovernanceAccountType.VoteRecordV2
+];
+
+/**
+ * Governance account types (every version and kind of governed account)
+ */
+export const GOVERNANCE_TYPES = [
+  GovernanceAccountType.GovernanceV1,
+  GovernanceAccountType.ProgramGovernanceV1,
+  GovernanceAccountType.MintGovernanceV1,
+  GovernanceAccountType.TokenGovernanceV1,
+  GovernanceAccountType.GovernanceV2,
+  GovernanceAccountType.ProgramGovernanceV2,
+  GovernanceAccountType.MintGovernanceV2,
+  GovernanceAccountType.TokenGovernanceV2
+];
+
+/**
+ * Vote enum variants in order: Approve(Vec<VoteChoice>), Deny, Abstain, Veto
+ */
+const VOTE_KINDS = [VoteKind.APPROVE, VoteKind.DENY, VoteKind.ABSTAIN, VoteKind.VETO];
+
+/**
+ * ProposalState variants in order
+ */
+const PROPOSAL_STATES = [
+  'Draft',
+  'Signing Off',
+  'Voting',
+  'Succeeded',
+  'Executing',
+  'Completed',
+  'Cancelled',
+  'Defeated',
+  'Executing With Errors',
+  'Vetoed'
+];
+
+/**
+ * TransactionExecutionStatus variants in order
+ */
+const EXECUTION_STATUSES = ['None', 'Success', 'Error'];
+
+/**
+ * GoverningTokenType variants in order
+ */
+const GOVERNING_TOKEN_TYPES = ['Liquid', 'Membership', 'Dormant'];
+
+/**
+ * VoteThreshold variants in order; Disabled carries no percentage
+ */
+const VOTE_THRESHOLD_DISABLED = 2;
+
+/**
+ * Vote as serialized in CastVote instruction data and VoteRecordV2 accounts
+ */
+export interface DecodedVote {
+  kind: VoteKind;
+  choices: VoteChoice[];
+}
+
+export interface RealmAccount {
+  kind: 'realm';
+  accountType: GovernanceAccountType;
+  version: 1 | 2;
+  communityMint: PublicKey;
+  councilMint: PublicKey | null;
+  minCommunityWeightToCreateGovernance: bigint;
+  authority: PublicKey | null;
+  name: string;
+}
+
+/**
+ * Voter weight plugins and token type configured for one governing mint
+ */
+export interface GoverningTokenConfig {
+  voterWeightAddin: PublicKey | null;
+  maxVoterWeightAddin: PublicKey | null;
+  tokenType: string; // "Liquid", "Membership" or "Dormant"
+}
+
+export interface RealmConfigAccount {
+  kind: 'realmConfig';
+  accountType: GovernanceAccountType;
+  version: 1 | 2;
+  realm: PublicKey;
+  communityTokenConfig: GoverningTokenConfig;
+  councilTokenConfig: GoverningTokenConfig;
+}
+
+export interface GovernanceAccount {
+  kind: 'governance';
+  accountType: GovernanceAccountType;
+  version: 1 | 2;
+  realm: PublicKey;
+  governedAccount: PublicKey;
+}
+
+export interface TokenOwnerRecordAccount {
+  kind: 'tokenOwnerRecord';
+  accountType: GovernanceAccountType;
+  version: 1 | 2;
+  realm: PublicKey;
+  governingTokenMint: PublicKey;
+  governingTokenOwner: PublicKey;
+  depositAmount: bigint;
+  unrelinquishedVotesCount: bigint;
+  outstandingProposalCount: number;
+  governanceDelegate: PublicKey | null;
+}
+
+export interface ProposalOptionData {
+  label: string;
+  voteWeight: bigint;
+}
+
+export interface ProposalAccount {
+  kind: 'proposal';
+  accountType: GovernanceAccountType;
+  version: 1 | 2;
+  governance: PublicKey;
+  governingTokenMint: PublicKey;
+  state: string; // e.g. "Voting", "Succeeded", "Executing With Errors"
+  tokenOwnerRecord: PublicKey;
+  signatoriesCount: number;
+  signedOffCount: number;
+  options: ProposalOptionData[]; // V1 proposals have a single "Yes" option
+  denyVoteWeight: bigint | null;
+  abstainVoteWeight: bigint | null;
+  vetoVoteWeight: bigint;
+  draftAt: number; // Unix timestamps
+  signingOffAt: number | null;
+  votingAt: number | null;
+  votingCompletedAt: number | null;
+  executingAt: number | null;
+  closedAt: number | null;
+  name: string;
+  descriptionLink: string;
+}
+
+export interface InstructionData {
+  programId: PublicKey;
+  accounts: { pubkey: PublicKey; isSigner: boolean; isWritable: boolean }[];
+  data: Buffer;
+}
+
+export interface ProposalTransactionAccount {
+  kind: 'proposalTransaction';
+  accountType: GovernanceAccountType;
+  version: 1 | 2;
+  proposal: PublicKey;
+  optionIndex: number; // Always 0 for V1 proposal instructions
+  transactionIndex: number;
+  holdUpTime: number;
+  instructions: InstructionData[];
+  executedAt: number | null;
+  executionStatus: string; // "None", "Success" or "Error"
+}
+
+export interface SignatoryRecordAccount {
+  kind: 'signatoryRecord';
+  accountType: GovernanceAccountType;
+  version: 1 | 2;
+  proposal: PublicKey;
+  signatory: PublicKey;
+  signedOff: boolean;
+}
+
+export interface VoteRecordAccount {
+  kind: 'voteRecord';
+  accountType: GovernanceAccountType;
+  version: 1 | 2;
+  proposal: PublicKey;
+  governingTokenOwner: PublicKey;
+  isRelinquished: boolean;
+  voterWeight: bigint;
+  vote: DecodedVote | null;
+}
+
+export interface RequiredSignatoryAccount {
+  kind: 'requiredSignatory';
+  accountType: GovernanceAccountType;
+  version: 1 | 2;
+  governance: PublicKey;
+  signatory: PublicKey;
+}
+
+export interface ProposalDepositAccount {
+  kind: 'proposalDeposit';
+  accountType: GovernanceAccountType;
+  version: 1 | 2;
+  proposal: PublicKey;
+  depositPayer: PublicKey;
+}
+
+/**
+ * Any decoded governance account, discriminated by `kind`
+ */
+export type DecodedGovernanceAccount =
+  | RealmAccount
+  | RealmConfigAccount
+  | GovernanceAccount
+  | TokenOwnerRecordAccount
+  | ProposalAccount
+  | ProposalTransactionAccount
+  | SignatoryRecordAccount
+  | VoteRecordAccount
+  | RequiredSignatoryAccount
+  | ProposalDepositAccount;
+
+/**
+ * Read position in account or instruction data
+ * Reads past the end throw a RangeError, which the decode functions turn into null.
+ */
+interface Reader {
+  data: Buffer;
+  offset: number;
+}
+
+function take(reader: Reader, size: number): number {
+  const start = reader.offset;
+  if (start + size > reader.data.length) {
+    throw new RangeError(`Read of ${size} bytes at offset ${start} exceeds ${reader.data.length} bytes`);
+  }
+  reader.offset += size;
+  return start;
+}
+
+function readU8(reader: Reader): number {
+  return reader.data[take(reader, 1)];
+}
+
+function readBool(reader: Reader): boolean {
+  return readU8(reader) !== 0;
+}
+
+function readU16(reader: Reader): number {
+  return reader.data.readUInt16LE(take(reader, 2));
+}
+
+function readU32(reader: Reader): number {
+  return reader.data.readUInt32LE(take(reader, 4));
+}
+
+function readU64(reader: Reader): bigint {
+  return reader.data.readBigUInt64LE(take(reader, 8));
+}
+
+function readTimestamp(reader: Reader): number {
+  return Number(reader.data.readBigInt64LE(take(reader, 8)));
+}
+
+function readPubkey(reader: Reader): PublicKey {
+  const start = take(reader, PUBKEY_SIZE);
+  return new PublicKey(reader.data.subarray(start, start + PUBKEY_SIZE));
+}
+
+function readBytes(reader: Reader): Buffer {
+  const length = readU32(reader);
+  const start = take(reader, length);
+  return Buffer.from(reader.data.subarray(start, start + length));
+}
+
+function readString(reader: Reader): string {
+  return readBytes(reader).toString('utf8');
+}
+
+function readOption<T>(reader: Reader, read: (reader: Reader) => T): T | null {
+  return readBool(reader) ? read(reader) : null;
+}
+
+function readVec<T>(reader: Reader, read: (reader: Reader) => T): T[] {
+  const count = readU32(reader);
+  const items: T[] = [];
+  for (let i = 0; i < count; i++) {
+    items.push(read(reader));
+  }
+  return items;
+}
+
+function skip(reader: Reader, size: number): void {
+  take(reader, size);
+}
+
+/**
+ * Look up an enum variant label
+ * @throws RangeError for unknown variants
+ */
+function readVariant(reader: Reader, labels: string[]): string {
+  const index = readU8(reader);
+  if (index >= labels.length) {
+    throw new RangeError(`Unknown enum variant ${index}`);
+  }
+  return labels[index];
+}
+
+function readVote(reader: Reader): DecodedVote {
+  const kind = VOTE_KINDS[readU8(reader)];
+  if (!kind) {
+    throw new RangeError('Unknown vote variant');
+  }
+  const choices = kind === VoteKind.APPROVE
+    ? readVec(reader, r => ({ rank: readU8(r), weightPercentage: readU8(r) }))
+    : [];
+  return { kind, choices };
+}
+
+function skipVoteThreshold(reader: Reader): void {
+  if (readU8(reader) !== VOTE_THRESHOLD_DISABLED) {
+    skip(reader, 1);
+  }
+}
+
+function readInstructionData(reader: Reader): InstructionData {
+  return {
+    programId: readPubkey(reader),
+    accounts: readVec(reader, r => ({ pubkey: readPubkey(r), isSigner: readBool(r), isWritable: readBool(r) })),
+    data: readBytes(reader)
+  };
+}
+
+function readGoverningTokenConfig(reader: Reader): GoverningTokenConfig {
+  const config = {
+    voterWeightAddin: readOption(reader, readPubkey),
+    maxVoterWeightAddin: readOption(reader, readPubkey),
+    tokenType: readVariant(reader, GOVERNING_TOKEN_TYPES)
+  };
+  skip(reader, 8); // reserved
+  return config;
+}
+
+/**
+ * Realm V1/V2 (V2 only appends reserved bytes after the name)
+ */
+function readRealm(reader: Reader, accountType: GovernanceAccountType, version: 1 | 2): RealmAccount {
+  const communityMint = readPubkey(reader);
+  skip(reader, 8); // config legacy fields and reserved bytes
+  const minCommunityWeightToCreateGovernance = readU64(reader);
+  skip(reader, 9); // community_mint_max_voter_weight_source
+  const councilMint = readOption(reader, readPubkey);
+  skip(reader, 6 + 2); // reserved, voting_proposal_count
+  return {
+    kind: 'realm',
+    accountType,
+    version,
+    communityMint,
+    councilMint,
+    minCommunityWeightToCreateGovernance,
+    authority: readOption(reader, readPubkey),
+    name: readString(reader)
+  };
+}
+
+/**
+ * RealmConfig
+ * Accounts created before token types existed stored only optional community and
+ * council addins followed by zeroed bytes, which decode as Liquid tokens without
+ * council plugins.
+ */
+function readRealmConfig(reader: Reader, accountType: GovernanceAccountType): RealmConfigAccount {
+  return {
+    kind: 'realmConfig',
+    accountType,
+    version: 1,
+    realm: readPubkey(reader),
+    communityTokenConfig: readGoverningTokenConfig(reader),
+    councilTokenConfig: readGoverningTokenConfig(reader)
+  };
+}
+
+function readGovernance(reader: Reader, accountType: GovernanceAccountType, version: 1 | 2): GovernanceAccount {
+  return {
+    kind: 'governance',
+    accountType,
+    version,
+    realm: readPubkey(reader),
+    governedAccount: readPubkey(reader)
+  };
+}
+
+/**
+ * TokenOwnerRecord V1 stores u32 unrelinquished and total vote counters where V2
+ * has a single u64, so both versions keep governance_delegate at the same offset
+ */
+function readTokenOwnerRecord(
+  reader: Reader,
+  accountType: GovernanceAccountType,
+  version: 1 | 2
+): TokenOwnerRecordAccount {
+  const realm = readPubkey(reader);
+  const governingTokenMint = readPubkey(reader);
+  const governingTokenOwner = readPubkey(reader);
+  const depositAmount = readU64(reader);
+
+  let unrelinquishedVotesCount: bigint;
+  if (version === 1) {
+    unrelinquishedVotesCount = BigInt(readU32(reader));
+    skip(reader, 4); // total_votes_count
+  } else {
+    unrelinquishedVotesCount = readU64(reader);
+  }
+  const outstandingProposalCount = readU8(reader);
+  skip(reader, 7); // V1: reserved; V2: version and reserved
+
+  return {
+    kind: 'tokenOwnerRecord',
+    accountType,
+    version,
+    realm,
+    governingTokenMint,
+    governingTokenOwner,
+    depositAmount,
+    unrelinquishedVotesCount,
+    outstandingProposalCount,
+    governanceDelegate: readOption(reader, readPubkey)
+  };
+}
+
+/**
+ * ProposalV1: yes/no vote weights and a single instruction set
+ */
+function readProposalV1(reader: Reader, accountType: GovernanceAccountType): ProposalAccount {
+  const governance = readPubkey(reader);
+  const governingTokenMint = readPubkey(reader);
+  const state = readVariant(reader, PROPOSAL_STATES);
+  const tokenOwnerRecord = readPubkey(reader);
+  const signatoriesCount = readU8(reader);
+  const signedOffCount = readU8(reader);
+  const yesVoteWeight = readU64(reader);
+  const noVoteWeight = readU64(reader);
+  skip(reader, 6); // instructions executed, count and next index
+  const draftAt = readTimestamp(reader);
+  const signingOffAt = readOption(reader, readTimestamp);
+  const votingAt = readOption(reader, readTimestamp);
+  readOption(reader, readU64); // voting_at_slot
+  const votingCompletedAt = readOption(reader, readTimestamp);
+  const executingAt = readOption(reader, readTimestamp);
+  const closedAt = readOption(reader, readTimestamp);
+  skip(reader, 1); // execution_flags
+  readOption(reader, readU64); // max_vote_weight
+  readOption(reader, skipVoteThreshold);
+
+  return {
+    kind: 'proposal',
+    accountType,
+    version: 1,
+    governance,
+    governingTokenMint,
+    state,
+    tokenOwnerRecord,
+    signatoriesCount,
+    signedOffCount,
+    options: [{ label: 'Yes', voteWeight: yesVoteWeight }],
+    denyVoteWeight: noVoteWeight,
+    abstainVoteWeight: null,
+    vetoVoteWeight: BigInt(0),
+    draftAt,
+    signingOffAt,
+    votingAt,
+    votingCompletedAt,
+    executingAt,
+    closedAt,
+    name: readString(reader),
+    descriptionLink: readString(reader)
+  };
+}
+
+/**
+ * ProposalV2: vote type and one entry per option
+ *
+ * The MultiChoice vote type is 2 bytes under program v2 (max voter and max winning
+ * options) and 4 under v3 (choice type and min voter options added). The account
+ * does not record the program version, so the v3 layout is tried first and the v2
+ * layout is used when the data does not decode as v3.
+ */
+function readProposalV2(reader: Reader, accountType: GovernanceAccountType): ProposalAccount {
+  const start = reader.offset;
+  try {
+    return readProposalV2Layout(reader, accountType, 3);
+  } catch (error) {
+    if (!(error instanceof RangeError)) {
+      throw error;
+    }
+    reader.offset = start;
+    return readProposalV2Layout(reader, accountType, 2);
+  }
+}
+
+/**
+ * Read the MultiChoice vote type fields of a ProposalV2
+ * @throws RangeError if the v3 fields are out of range
+ * @returns Max voter options
+ */
+function readMultiChoice(reader: Reader, programVersion: 2 | 3): number {
+  if (programVersion === 2) {
+    const maxVoterOptions = readU8(reader);
+    skip(reader, 1); // max_winning_options
+    return maxVoterOptions;
+  }
+
+  const choiceType = readU8(reader);
+  const minVoterOptions = readU8(reader);
+  const maxVoterOptions = readU8(reader);
+  const maxWinningOptions = readU8(reader);
+  if (choiceType > 1 || minVoterOptions < 1 || minVoterOptions > maxVoterOptions || maxWinningOptions < 1) {
+    throw new RangeError('MultiChoice fields out of range for the v3 layout');
+  }
+  return maxVoterOptions;
+}
+
+function readProposalV2Layout(
+  reader: Reader,
+  accountType: GovernanceAccountType,
+  programVersion: 2 | 3
+): ProposalAccount {
+  const governance = readPubkey(reader);
+  const governingTokenMint = readPubkey(reader);
+  const state = readVariant(reader, PROPOSAL_STATES);
+  const tokenOwnerRecord = readPubkey(reader);
+  const signatoriesCount = readU8(reader);
+  const signedOffCount = readU8(reader);
+  const maxVoterOptions = readU8(reader) !== 0 ? readMultiChoice(reader, programVersion) : 1;
+  const options = readVec(reader, r => {
+    const option = { label: readString(r), voteWeight: readU64(r) };
+    skip(r, 1 + 6); // vote result, transactions executed, count and next index
+    return option;
+  });
+  if (programVersion === 3 && options.length < maxVoterOptions) {
+    throw new RangeError(`${options.length} options but up to ${maxVoterOptions} may be chosen`);
+  }
+  const denyVoteWeight = readOption(reader, readU64);
+  skip(reader, 1); // reserved
+  const abstainVoteWeight = readOption(reader, readU64);
+  readOption(reader, readTimestamp); // start_voting_at
+  const draftAt = readTimestamp(reader);
+  const signingOffAt = readOption(reader, readTimestamp);
+  const votingAt = readOption(reader, readTimestamp);
+  readOption(reader, readU64); // voting_at_slot
+  const votingCompletedAt = readOption(reader, readTimestamp);
+  const executingAt = readOption(reader, readTimestamp);
+  const closedAt = readOption(reader, readTimestamp);
+  skip(reader, 1); // execution_flags
+  readOption(reader, readU64); // max_vote_weight
+  readOption(reader, readU32); // max_voting_time
+  readOption(reader, skipVoteThreshold);
+  skip(reader, 64); // reserved
+  const name = readString(reader);
+  const descriptionLink = readString(reader);
+  // Proposals created before vetoes existed end after the description link
+  const vetoVoteWeight = reader.offset + 8 <= reader.data.length ? readU64(reader) : BigInt(0);
+
+  return {
+    kind: 'proposal',
+    accountType,
+    version: 2,
+    governance,
+    governingTokenMint,
+    state,
+    tokenOwnerRecord,
+    signatoriesCount,
+    signedOffCount,
+    options,
+    denyVoteWeight,
+    abstainVoteWeight,
+    vetoVoteWeight,
+    draftAt,
+    signingOffAt,
+    votingAt,
+    votingCompletedAt,
+    executingAt,
+    closedAt,
+    name,
+    descriptionLink
+  };
+}
+
+/**
+ * ProposalInstructionV1 (one instruction) or ProposalTransactionV2 (an option's instructions)
+ */
+function readProposalTransaction(
+  reader: Reader,
+  accountType: GovernanceAccountType,
+  version: 1 | 2
+): ProposalTransactionAccount {
+  const proposal = readPubkey(reader);
+  const optionIndex = version === 2 ? readU8(reader) : 0;
+  const transactionIndex = readU16(reader);
+  const holdUpTime = readU32(reader);
+  const instructions = version === 2 ? readVec(reader, readInstructionData) : [readInstructionData(reader)];
+
+  return {
+    kind: 'proposalTransaction',
+    accountType,
+    version,
+    proposal,
+    optionIndex,
+    transactionIndex,
+    holdUpTime,
+    instructions,
+    executedAt: readOption(reader, readTimestamp),
+    executionStatus: readVariant(reader, EXECUTION_STATUSES)
+  };
+}
+
+function readSignatoryRecord(
+  reader: Reader,
+  accountType: GovernanceAccountType,
+  version: 1 | 2
+): SignatoryRecordAccount {
+  return {
+    kind: 'signatoryRecord',
+    accountType,
+    version,
+    proposal: readPubkey(reader),
+    signatory: readPubkey(reader),
+    signedOff: readBool(reader)
+  };
+}
+
+/**
+ * VoteRecordV1 stores VoteWeightV1 = Yes(u64) | No(u64); V2 stores the voter weight
+ * followed by a full Vote
+ */
+function readVoteRecord(reader: Reader, accountType: GovernanceAccountType, version: 1 | 2): VoteRecordAccount {
+  const proposal = readPubkey(reader);
+  const governingTokenOwner = readPubkey(reader);
+  const isRelinquished = readBool(reader);
+
+  if (version === 1) {
+    const kind = readU8(reader) === 0 ? VoteKind.APPROVE : VoteKind.DENY;
+    return {
+      kind: 'voteRecord',
+      accountType,
+      version,
+      proposal,
+      governingTokenOwner,
+      isRelinquished,
+      voterWeight: readU64(reader),
+      vote: { kind, choices: [] }
+    };
+  }
+
+  const voterWeight = readU64(reader);
+  let vote: DecodedVote | null;
+  try {
+    vote = readVote(reader);
+  } catch {
+    vote = null;
+  }
+  return {
+    kind: 'voteRecord',
+    accountType,
+    version,
+    proposal,
+    governingTokenOwner,
+    isRelinquished,
+    voterWeight,
+    vote
+  };
+}
+
+function readAccount(reader: Reader): DecodedGovernanceAccount | null {
+  const accountType = readU8(reader) as GovernanceAccountType;
+
+  switch (accountType) {
+    case GovernanceAccountType.RealmV1:
+      return readRealm(reader, accountType, 1);
+    case GovernanceAccountType.RealmV2:
+      return readRealm(reader, accountType, 2);
+
+    case GovernanceAccountType.RealmConfig:
+      return readRealmConfig(reader, accountType);
+
+    case GovernanceAccountType.GovernanceV1:
+    case GovernanceAccountType.ProgramGovernanceV1:
+    case GovernanceAccountType.MintGovernanceV1:
+    case GovernanceAccountType.TokenGovernanceV1:
+      return readGovernance(reader, accountType, 1);
+    case GovernanceAccountType.GovernanceV2:
+    case GovernanceAccountType.ProgramGovernanceV2:
+    case GovernanceAccountType.MintGovernanceV2:
+    case GovernanceAccountType.TokenGovernanceV2:
+      return readGovernance(reader, accountType, 2);
+
+    case GovernanceAccountType.TokenOwnerRecordV1:
+      return readTokenOwnerRecord(reader, accountType, 1);
+    case GovernanceAccountType.TokenOwnerRecordV2:
+      return readTokenOwnerRecord(reader, accountType, 2);
+
+    case GovernanceAccountType.ProposalV1:
+      return readProposalV1(reader, accountType);
+    case GovernanceAccountType.ProposalV2:
+      return readProposalV2(reader, accountType);
+
+    case GovernanceAccountType.ProposalInstructionV1:
+      return readProposalTransaction(reader, accountType, 1);
+    case GovernanceAccountType.ProposalTransactionV2:
+      return readProposalTransaction(reader, accountType, 2);
+
+    case GovernanceAccountType.SignatoryRecordV1:
+      return readSignatoryRecord(reader, accountType, 1);
+    case GovernanceAccountType.SignatoryRecordV2:
+      return readSignatoryRecord(reader, accountType, 2);
+
+    case GovernanceAccountType.VoteRecordV1:
+      return readVoteRecord(reader, accountType, 1);
+    case GovernanceAccountType.VoteRecordV2:
+      return readVoteRecord(reader, accountType, 2);
+
+    case GovernanceAccountType.RequiredSignatory:
+      skip(reader, 1); // account_version
+      return {
+        kind: 'requiredSignatory',
+        accountType,
+        version: 1,
+        governance: readPubkey(reader),
+        signatory: readPubkey(reader)
+      };
+
+    case GovernanceAccountType.ProposalDeposit:
+      return {
+        kind: 'proposalDeposit',
+        accountType,
+        version: 1,
+        proposal: readPubkey(reader),
+        depositPayer: readPubkey(reader)
+      };
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Decode a governance account of any type and version
+ * @param data - Account data, starting with the account type byte
+ * @returns The decoded account, or null if the type is unknown or the data is malformed
+ */
+export function decodeGovernanceAccount(data: Buffer): DecodedGovernanceAccount | null {
+  try {
+    return readAccount({ data, offset: 0 });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decode a governance account of an expected kind
+ * @returns The decoded account, or null if the data holds another kind or fails to decode
+ */
+function decodeAs<K extends DecodedGovernanceAccount['kind']>(
+  data: Buffer,
+  kind: K
+): Extract<DecodedGovernanceAccount, { kind: K }> | null {
+  const account = decodeGovernanceAccount(data);
+  return account?.kind === kind ? account as Extract<DecodedGovernanceAccount, { kind: K }> : null;
+}
+
+export function decodeRealm(data: Buffer): RealmAccount | null {
+  return decodeAs(data, 'realm');
+}
+
+export function decodeRealmConfig(data: Buffer): RealmConfigAccount | null {
+  return decodeAs(data, 'realmConfig');
+}
+
+export function decodeTokenOwnerRecord(data: Buffer): TokenOwnerRecordAccount | null {
+  return decodeAs(data, 'tokenOwnerRecord');
+}
+
+export function decodeProposal(data: Buffer): ProposalAccount | null {
+  return decodeAs(data, 'proposal');
+}
+
+export function decodeVoteRecord(data: Buffer): VoteRecordAccount | null {
+  return decodeAs(data, 'voteRecord');
+}
+
+/**
+ * Anchor discriminators (sha256("account:<Name>")[0..8]) of voter weight plugin accounts
+ * VoterWeightRecord and MaxVoterWeightRecord follow the governance addin API; plugin
+ * registrars (Voter Stake Registry, NFT voter, gateway) share the leading fields.
+ */
+const VOTER_WEIGHT_RECORD_DISCRIMINATOR = Buffer.from([46, 249, 155, 75, 153, 248, 116, 9]);
+const MAX_VOTER_WEIGHT_RECORD_DISCRIMINATOR = Buffer.from([157, 95, 242, 151, 16, 98, 26, 118]);
+const REGISTRAR_DISCRIMINATOR = Buffer.from([193, 202, 205, 51, 78, 168, 150, 128]);
+const ANCHOR_DISCRIMINATOR_SIZE = 8;
+
+/**
+ * Realm link of a voter weight plugin account
+ */
+export interface PluginAccount {
+  kind: 'voterWeightRecord' | 'maxVoterWeightRecord' | 'registrar';
+  realm: PublicKey;
+  governanceProgramId: PublicKey | null; // Registrars only
+  governingTokenOwner: PublicKey | null; // VoterWeightRecords only
+}
+
+/**
+ * Decode the realm fields of a voter weight plugin account
+ * - VoterWeightRecord: realm, governing_token_mint, governing_token_owner
+ * - MaxVoterWeightRecord: realm, governing_token_mint
+ * - Registrar: governance_program_id, realm, governing_token_mint
+ * @returns The decoded fields, or null for any other account
+ */
+export function decodePluginAccount(data: Buffer): PluginAccount | null {
+  const discriminator = data.subarray(0, ANCHOR_DISCRIMINATOR_SIZE);
+  const reader = { data, offset: ANCHOR_DISCRIMINATOR_SIZE };
+
+  try {
+    if (discriminator.equals(VOTER_WEIGHT_RECORD_DISCRIMINATOR)) {
+      const realm = readPubkey(reader);
+      skip(reader, PUBKEY_SIZE); // governing_token_mint
+      return { kind: 'voterWeightRecord', realm, governanceProgramId: null, governingTokenOwner: readPubkey(reader) };
+    }
+    if (discriminator.equals(MAX_VOTER_WEIGHT_RECORD_DISCRIMINATOR)) {
+      return { kind: 'maxVoterWeightRecord', realm: readPubkey(reader), governanceProgramId: null, governingTokenOwner: null };
+    }
+    if (discriminator.equals(REGISTRAR_DISCRIMINATOR)) {
+      const governanceProgramId = readPubkey(reader);
+      return { kind: 'registrar', realm: readPubkey(reader), governanceProgramId, governingTokenOwner: null };
+    }
+  } catch {
+    return null;
+  }
+  return null;
+}
+
+/**
+ * Decode a borsh-serialized Vote
+ * @param data - Instruction or account data
+ * @param offset - Offset of the Vote enum variant byte
+ * @returns The vote, or null if the data is too short or the variant is unknown
+ */
+export function decodeVote(data: Buffer, offset: number): DecodedVote | null {
+  try {
+    return readVote({ data, offset });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build getProgramAccounts filters matching one account type and fixed-offset fields
+ * @param accountType - Account type byte (offset 0)
+ * @param fields - Field values at their offsets, e.g. a realm or an Option tag plus pubkey
+ */
+export function accountTypeFilters(
+  accountType: GovernanceAccountType,
+  fields: { offset: number; bytes: Buffer }[] = []
+): GetProgramAccountsFilter[] {
+  return [{ offset: 0, bytes: Buffer.from([accountType]) }, ...fields].map(({ offset, bytes }) => ({
+    memcmp: { offset, encoding: 'base64', bytes: bytes.toString('base64') }
+  }));
+}
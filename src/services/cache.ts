@@ -0,0 +1,325 @@
+/**
+ * Persistent on-disk cache for RPC responses
+ *
+ * Finalized transactions never change, so each ParsedTransactionWithMeta is stored
+ * under its signature (the transaction's content address). Signature pages are
+ * stored per address and `before` cursor; only pages that start from a cursor and
+ * contain finalized signatures are cached, since history before a finalized
+ * signature cannot change. The newest page of an address is always fetched live.
+ *
+ * Layout:
+ * - <dir>/transactions/<first 2 chars>/<signature>.json
+ * - <dir>/signatures/<address>/<before>-<limit>.json
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  PublicKey,
+  ParsedTransactionWithMeta,
+  ConfirmedSignatureInfo
+} from '@solana/web3.js';
+import { CACHE_FINALITY_AGE_SECONDS } from '../constants';
+import { logWarning } from '../utils/logger';
+
+const TRANSACTIONS_DIR = 'transactions';
+const SIGNATURES_DIR = 'signatures';
+// Only these subdirectories hold cache entries; anything else under the cache
+// directory (such as run checkpoints) is left alone by prune and invalidate
+const ENTRY_DIRS = [TRANSACTIONS_DIR, SIGNATURES_DIR];
+
+/**
+ * Size and entry counts of the cache
+ */
+export interface CacheStats {
+  directory: string;
+  transactions: number;
+  signaturePages: number;
+  addresses: number;
+  totalBytes: number;
+}
+
+/**
+ * Cache state (disabled until initialized)
+ */
+let cacheDir: string | null = null;
+
+/**
+ * Initialize the cache
+ * @param dir - Cache directory
+ * @param enabled - false for --no-cache (reads and writes are skipped)
+ */
+export function initCache(dir: string, enabled: boolean = true): void {
+  cacheDir = enabled ? path.resolve(dir) : null;
+}
+
+/**
+ * Check if the cache is enabled
+ */
+export function isCacheEnabled(): boolean {
+  return cacheDir !== null;
+}
+
+/**
+ * JSON replacer that preserves PublicKey instances
+ * PublicKey.toJSON runs before the replacer, so the original value is read from the holder
+ */
+function replacer(this: Record<string, unknown>, key: string, value: unknown): unknown {
+  const original = this[key];
+  if (original instanceof PublicKey) {
+    return { $pubkey: original.toBase58() };
+  }
+  return value;
+}
+
+/**
+ * JSON reviver that restores PublicKey instances
+ */
+function reviver(_key: string, value: unknown): unknown {
+  if (value && typeof value === 'object' && '$pubkey' in value) {
+    return new PublicKey((value as { $pubkey: string }).$pubkey);
+  }
+  return value;
+}
+
+/**
+ * Read and decode a cache entry, discarding corrupt files
+ */
+function readEntry<T>(filepath: string): T | null {
+  if (!fs.existsSync(filepath)) {
+    return null;
+  }
+
+  try {
+    const entry = JSON.parse(fs.readFileSync(filepath, 'utf-8'), reviver) as T;
+    // Record last access so prune can drop entries that are no longer used
+    const now = new Date();
+    fs.utimesSync(filepath, now, now);
+    return entry;
+  } catch {
+    logWarning(`Discarding corrupt cache entry: ${filepath}`);
+    fs.rmSync(filepath, { force: true });
+    return null;
+  }
+}
+
+/**
+ * Write a cache entry atomically (write to a temp file, then rename)
+ */
+function writeEntry(filepath: string, value: unknown): void {
+  try {
+    fs.mkdirSync(path.dirname(filepath), { recursive: true });
+    const tmpPath = `${filepath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(value, replacer));
+    fs.renameSync(tmpPath, filepath);
+  } catch (error) {
+    logWarning(`Failed to write cache entry: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Path of a cached transaction
+ */
+function transactionPath(dir: string, signature: string): string {
+  return path.join(dir, TRANSACTIONS_DIR, signature.slice(0, 2), `${signature}.json`);
+}
+
+/**
+ * Path of a cached signature page
+ */
+function signaturePagePath(dir: string, address: string, before: string, limit: number): string {
+  return path.join(dir, SIGNATURES_DIR, address, `${before}-${limit}.json`);
+}
+
+/**
+ * Get a cached transaction
+ */
+export function getCachedTransaction(signature: string): ParsedTransactionWithMeta | null {
+  if (!cacheDir) {
+    return null;
+  }
+  return readEntry<ParsedTransactionWithMeta>(transactionPath(cacheDir, signature));
+}
+
+/**
+ * Cache a transaction once it is old enough to be finalized
+ */
+export function putCachedTransaction(signature: string, tx: ParsedTransactionWithMeta | null): void {
+  if (!cacheDir || !tx || !tx.blockTime) {
+    return;
+  }
+
+  const age = Date.now() / 1000 - tx.blockTime;
+  if (age < CACHE_FINALITY_AGE_SECONDS) {
+    return;
+  }
+
+  writeEntry(transactionPath(cacheDir, signature), tx);
+}
+
+/**
+ * Get a cached signature page
+ * The newest page (no `before` cursor) is never cached
+ */
+export function getCachedSignaturePage(
+  address: string,
+  before: string | undefined,
+  limit: number
+): ConfirmedSignatureInfo[] | null {
+  if (!cacheDir || !before) {
+    return null;
+  }
+  return readEntry<ConfirmedSignatureInfo[]>(signaturePagePath(cacheDir, address, before, limit));
+}
+
+/**
+ * Cache a signature page if it starts from a cursor and every entry is finalized
+ */
+export function putCachedSignaturePage(
+  address: string,
+  before: string | undefined,
+  limit: number,
+  page: ConfirmedSignatureInfo[]
+): void {
+  if (!cacheDir || !before) {
+    return;
+  }
+
+  if (!page.every(sig => sig.confirmationStatus === 'finalized')) {
+    return;
+  }
+
+  writeEntry(signaturePagePath(cacheDir, address, before, limit), page);
+}
+
+/**
+ * Visit every file in a directory tree
+ */
+function walkFiles(dir: string, visit: (filepath: string, stat: fs.Stats) => void): void {
+  if (!fs.existsSync(dir)) {
+    return;
+  }
+
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const filepath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      walkFiles(filepath, visit);
+    } else {
+      visit(filepath, fs.statSync(filepath));
+    }
+  }
+}
+
+/**
+ * Remove empty directories left behind after deleting entries
+ */
+function removeEmptyDirs(dir: string): void {
+  if (!fs.existsSync(dir)) {
+    return;
+  }
+
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (entry.isDirectory()) {
+      const child = path.join(dir, entry.name);
+      removeEmptyDirs(child);
+      if (fs.readdirSync(child).length === 0) {
+        fs.rmdirSync(child);
+      }
+    }
+  }
+}
+
+/**
+ * Collect cache statistics
+ * @param dir - Cache directory
+ */
+export function getCacheStats(dir: string): CacheStats {
+  const directory = path.resolve(dir);
+  const stats: CacheStats = {
+    directory,
+    transactions: 0,
+    signaturePages: 0,
+    addresses: 0,
+    totalBytes: 0
+  };
+
+  walkFiles(path.join(directory, TRANSACTIONS_DIR), (_filepath, stat) => {
+    stats.transactions++;
+    stats.totalBytes += stat.size;
+  });
+
+  const signaturesDir = path.join(directory, SIGNATURES_DIR);
+  if (fs.existsSync(signaturesDir)) {
+    stats.addresses = fs.readdirSync(signaturesDir).length;
+  }
+  walkFiles(signaturesDir, (_filepath, stat) => {
+    stats.signaturePages++;
+    stats.totalBytes += stat.size;
+  });
+
+  return stats;
+}
+
+/**
+ * Remove entries not read or written within the given number of days
+ * Leftover temporary files are removed by the same rule, so a write still in
+ * progress in a running command is never touched.
+ * @param dir - Cache directory
+ * @param maxAgeDays - Maximum age since last access
+ * @returns Number of entries removed
+ */
+export function pruneCache(dir: string, maxAgeDays: number): number {
+  const directory = path.resolve(dir);
+  const cutoff = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+  let removed = 0;
+
+  for (const entryDir of ENTRY_DIRS) {
+    walkFiles(path.join(directory, entryDir), (filepath, stat) => {
+      if (stat.mtimeMs < cutoff) {
+        fs.rmSync(filepath, { force: true });
+        removed++;
+      }
+    });
+    removeEmptyDirs(path.join(directory, entryDir));
+  }
+
+  return removed;
+}
+
+/**
+ * Invalidate cache entries
+ * @param dir - Cache directory
+ * @param target - A transaction signature or account address; omit to clear everything
+ * @returns Number of entries removed
+ */
+export function invalidateCache(dir: string, target?: string): number {
+  const directory = path.resolve(dir);
+  let removed = 0;
+
+  if (!target) {
+    for (const entryDir of ENTRY_DIRS) {
+      walkFiles(path.join(directory, entryDir), () => removed++);
+      fs.rmSync(path.join(directory, entryDir), { recursive: true, force: true });
+    }
+    return removed;
+  }
+
+  // Signature: drop the cached transaction
+  const txPath = transactionPath(directory, target);
+  if (fs.existsSync(txPath)) {
+    fs.rmSync(txPath);
+    removed++;
+  }
+
+  // Address: drop every cached signature page
+  const addressDir = path.join(directory, SIGNATURES_DIR, target);
+  if (fs.existsSync(addressDir)) {
+    walkFiles(addressDir, () => removed++);
+    fs.rmSync(addressDir, { recursive: true, force: true });
+  }
+
+  for (const entryDir of ENTRY_DIRS) {
+    removeEmptyDirs(path.join(directory, entryDir));
+  }
+  return removed;
+}
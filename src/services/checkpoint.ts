@@ -0,0 +1,208 @@
+/**
+ * Run checkpoints for resuming interrupted or failed runs
+ *
+ * A checkpoint records, per wallet, how far each signature source has been paged
+ * and the outcome of every transaction fetched and parsed so far. Checkpoints are
+ * keyed by the run parameters (realms, wallets, date range, governance programs,
+ * attribution mode), so a later run with the same parameters picks up where the
+ * previous one stopped.
+ * The checkpoint is deleted once a run completes.
+ *
+ * Layout: <dir>/checkpoints/<key>.json
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { ConfirmedSignatureInfo } from '@solana/web3.js';
+import { ValidatedConfig, TrackedTransaction, RejectedTransaction } from '../types';
+import { CHECKPOINT_SAVE_INTERVAL_MS } from '../constants';
+import { logInfo, logWarning } from '../utils/logger';
+
+const CHECKPOINTS_DIR = 'checkpoints';
+const CHECKPOINT_VERSION = 11;
+
+/**
+ * Paging progress for one address's signature history
+ */
+export interface SignatureProgress {
+  before: string | null; // Cursor of the next page to fetch
+  signatures: ConfirmedSignatureInfo[]; // In-range signatures collected so far
+  done: boolean;
+}
+
+/**
+ * Result of processing one signature: tracked in a realm (attributed to the wallet,
+ * or paid by it for another token owner), rejected, or not a governance transaction
+ * of the wallet (null)
+ */
+export type TransactionOutcome =
+  | { realmId: string; transaction: TrackedTransaction; attributed: boolean }
+  | { realmId: null; transaction: RejectedTransaction }
+  | null;
+
+/**
+ * Progress for one wallet
+ */
+export interface WalletCheckpoint {
+  /** Paging progress per queried address (TokenOwnerRecords, VoteRecords, wallet) */
+  signatureSources: Record<string, SignatureProgress>;
+  /** Merged signature list, set once every source has been paged */
+  signatures: ConfirmedSignatureInfo[] | null;
+  /** Outcome per processed signature */
+  outcomes: Record<string, TransactionOutcome>;
+}
+
+/**
+ * Checkpoint file contents
+ */
+interface CheckpointData {
+  version: number;
+  key: string;
+  updatedAt: string;
+  wallets: Record<string, WalletCheckpoint>;
+}
+
+/**
+ * Open checkpoint (none until opened; progress is then kept in memory only)
+ */
+let checkpoint: { filepath: string; data: CheckpointData } | null = null;
+let lastSaved = 0;
+
+/**
+ * Derive the checkpoint key from the parameters that determine a run's results
+ */
+export function getCheckpointKey(config: ValidatedConfig): string {
+  const params = JSON.stringify({
+    realmIds: config.realmIds,
+    wallets: config.wallets.map(wallet => wallet.address),
+    startTimestamp: config.startTimestamp,
+    endTimestamp: config.endTimestamp,
+    governanceProgramOverride: config.governanceProgramOverride,
+    allowedGovernancePrograms: config.allowedGovernancePrograms,
+    attributionMode: config.attributionMode
+  });
+  return createHash('sha256').update(params).digest('hex').slice(0, 16);
+}
+
+/**
+ * Create an empty checkpoint
+ */
+function emptyCheckpoint(key: string): CheckpointData {
+  return {
+    version: CHECKPOINT_VERSION,
+    key,
+    updatedAt: new Date().toISOString(),
+    wallets: {}
+  };
+}
+
+/**
+ * Open the checkpoint for a run, loading saved progress when resuming
+ * @param dir - Directory checkpoints are stored under
+ * @param key - Run key from getCheckpointKey
+ * @param resume - false to discard any saved progress
+ */
+export function openCheckpoint(dir: string, key: string, resume: boolean = true): void {
+  const filepath = path.join(path.resolve(dir), CHECKPOINTS_DIR, `${key}.json`);
+  let data = emptyCheckpoint(key);
+
+  if (fs.existsSync(filepath)) {
+    if (!resume) {
+      logInfo('Discarding saved checkpoint (--no-resume)');
+    } else {
+      try {
+        const saved = JSON.parse(fs.readFileSync(filepath, 'utf-8')) as CheckpointData;
+        if (saved.version === CHECKPOINT_VERSION && saved.key === key) {
+          data = saved;
+          const wallets = Object.values(saved.wallets);
+          const processed = wallets.reduce((sum, wallet) => sum + Object.keys(wallet.outcomes).length, 0);
+          logInfo(`Resuming from checkpoint saved ${saved.updatedAt} (${wallets.length} wallet(s), ${processed} transactions processed)`);
+        } else {
+          logWarning('Ignoring checkpoint from an incompatible version');
+        }
+      } catch {
+        logWarning(`Ignoring corrupt checkpoint: ${filepath}`);
+      }
+    }
+  }
+
+  checkpoint = { filepath, data };
+  lastSaved = 0;
+}
+
+/**
+ * Get (or start) the progress record for a wallet
+ * Without an open checkpoint the record is not persisted
+ */
+export function getWalletCheckpoint(walletAddress: string): WalletCheckpoint {
+  const wallets = checkpoint?.data.wallets;
+  if (wallets?.[walletAddress]) {
+    return wallets[walletAddress];
+  }
+
+  const walletCheckpoint: WalletCheckpoint = {
+    signatureSources: {},
+    signatures: null,
+    outcomes: {}
+  };
+  if (wallets) {
+    wallets[walletAddress] = walletCheckpoint;
+  }
+  return walletCheckpoint;
+}
+
+/**
+ * Get (or start) the paging progress for one signature source of a wallet
+ */
+export function getSignatureProgress(walletAddress: string, address: string): SignatureProgress {
+  const sources = getWalletCheckpoint(walletAddress).signatureSources;
+  if (!sources[address]) {
+    sources[address] = { before: null, signatures: [], done: false };
+  }
+  return sources[address];
+}
+
+/**
+ * Write the checkpoint to disk
+ * @param force - Write even if the last save was within CHECKPOINT_SAVE_INTERVAL_MS
+ */
+export function saveCheckpoint(force: boolean = false): void {
+  if (!checkpoint) {
+    return;
+  }
+  if (!force && Date.now() - lastSaved < CHECKPOINT_SAVE_INTERVAL_MS) {
+    return;
+  }
+
+  const { filepath, data } = checkpoint;
+  data.updatedAt = new Date().toISOString();
+
+  try {
+    fs.mkdirSync(path.dirname(filepath), { recursive: true });
+    const tmpPath = `${filepath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(data));
+    fs.renameSync(tmpPath, filepath);
+    lastSaved = Date.now();
+  } catch (error) {
+    logWarning(`Failed to save checkpoint: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Delete the checkpoint after a completed run
+ */
+export function clearCheckpoint(): void {
+  if (!checkpoint) {
+    return;
+  }
+  fs.rmSync(checkpoint.filepath, { force: true });
+  checkpoint = null;
+}
+
+/**
+ * Path of the open checkpoint file, if any
+ */
+export function getCheckpointPath(): string | null {
+  return checkpoint?.filepath ?? null;
+}
@@ -1,87 +1,168 @@
 /**
- * Governance SDK interactions and realm validation
+ * Governance account discovery and realm validation
  * 
- * Note: governance-idl-sdk is available but not currently used for account parsing.
- * The SDK exports SplGovernance which could be used for better account decoding
- * in the future. Current implementation uses manual parsing which is sufficient
- * for our use case.
+ * Accounts are decoded by account type and version with the account decoder;
+ * discovery queries match the type byte and fixed field offsets it exports.
  */
 
-import { Connection, PublicKey, GetProgramAccountsFilter } from '@solana/web3.js';
+import { Connection, PublicKey } from '@solana/web3.js';
 import { GOVERNANCE_PROGRAM_ID } from '../constants';
+import { GoverningTokenKind, ProposalMetadata } from '../types';
+import { RpcError } from '../errors';
 import { logInfo, logWarning, logSuccess } from '../utils/logger';
-import { throttle } from '../utils/rate-limiter';
+import {
+  fetchAccountInfo,
+  fetchProgramAccounts,
+  fetchRecentSignatures,
+  fetchMultipleAccounts
+} from './solana';
+import {
+  DecodedVote,
+  TOKEN_OWNER_RECORD_OFFSETS,
+  TOKEN_OWNER_RECORD_TYPES,
+  VOTE_RECORD_OFFSETS,
+  VOTE_RECORD_TYPES,
+  GOVERNANCE_REALM_OFFSET,
+  GOVERNANCE_TYPES,
+  accountTypeFilters,
+  decodeRealm,
+  decodeRealmConfig,
+  decodeTokenOwnerRecord,
+  decodeVoteRecord,
+  decodeProposal
+} from './account-decoder';
 
-/**
- * Realm account data structure offsets
- * Based on SPL Governance account layout
- * 
- * Realm account structure:
- * - account_type: 1 byte (offset 0)
- * - community_mint: 32 bytes (offset 1)
- * - reserved: 6 bytes (offset 33)
- * - voting_proposal_count: 2 bytes (offset 39)
- * - authority: Option<Pubkey> = 1 + 32 bytes (offset 41)
- * - name: String (variable length)
- * - ... rest of fields
- */
-const REALM_COMMUNITY_MINT_OFFSET = 1;
 const PUBKEY_SIZE = 32;
 
 /**
- * Parsed realm data with community token mint
+ * Parsed realm data with governing token mints
  */
 export interface RealmData {
+  programId: PublicKey; // Governance program deployment that owns the realm
   communityMint: PublicKey;
+  councilMint: PublicKey | null;
+  voterWeightPlugins: string[]; // Voter weight and max voter weight plugin programs from the RealmConfig
 }
 
 /**
- * Parse realm account data to extract the community token mint
+ * TokenOwnerRecord the tracked wallet acts through for one of the realm's governing mints:
+ * its own, or another member's that names the wallet as governance delegate
+ */
+export interface GoverningTokenOwnerRecord {
+  kind: GoverningTokenKind;
+  mint: PublicKey;
+  address: PublicKey;
+  exists: boolean;
+  delegator: string | null; // Owner of a record delegated to the wallet, null for the wallet's own
+}
+
+/**
+ * Derive the RealmConfig PDA of a realm
+ *
+ * RealmConfig seeds: ["realm-config", realm]
+ */
+export function deriveRealmConfigAddress(realm: PublicKey, governanceProgramId: PublicKey): PublicKey {
+  const [realmConfig] = PublicKey.findProgramAddressSync(
+    [Buffer.from('realm-config'), realm.toBuffer()],
+    governanceProgramId
+  );
+  return realmConfig;
+}
+
+/**
+ * Read the voter weight plugin programs configured for a realm's community and council mints
+ * Realms created without plugins may have no RealmConfig account.
+ * @returns Plugin program IDs (voter weight and max voter weight), or an empty list
+ * @throws RpcError if the RealmConfig cannot be fetched from any endpoint
+ */
+export async function fetchVoterWeightPlugins(
+  connection: Connection,
+  realm: PublicKey,
+  governanceProgramId: PublicKey
+): Promise<string[]> {
+  const address = deriveRealmConfigAddress(realm, governanceProgramId);
+  const accountInfo = await fetchAccountInfo(connection, address);
+  if (!accountInfo || !accountInfo.owner.equals(governanceProgramId)) {
+    return [];
+  }
+
+  const config = decodeRealmConfig(accountInfo.data);
+  if (!config) {
+    logWarning(`RealmConfig ${address.toString()} could not be decoded; voter weight plugins are not tracked`);
+    return [];
+  }
+
+  const plugins = [config.communityTokenConfig, config.councilTokenConfig]
+    .flatMap(tokenConfig => [tokenConfig.voterWeightAddin, tokenConfig.maxVoterWeightAddin])
+    .filter((plugin): plugin is PublicKey => plugin !== null)
+    .map(plugin => plugin.toString());
+  return Array.from(new Set(plugins));
+}
+
+/**
+ * Parse realm account data to extract the community and council token mints
+ *
+ * The governance program is detected from the realm account owner, which must be
+ * one of the allowed deployments. Voter weight plugins are read from the RealmConfig.
+ *
  * @param connection - Solana connection
  * @param realmId - Realm public key string
- * @returns RealmData with community mint, or null if parsing fails
+ * @param allowedPrograms - Governance program IDs the realm may be owned by
+ * @returns RealmData with governing mints and plugins, or null if parsing fails
+ * @throws RpcError if the realm cannot be fetched from any endpoint
  */
 export async function parseRealmData(
   connection: Connection,
-  realmId: string
+  realmId: string,
+  allowedPrograms: string[] = [GOVERNANCE_PROGRAM_ID]
 ): Promise<RealmData | null> {
   try {
     const realmPubkey = new PublicKey(realmId);
-    const accountInfo = await connection.getAccountInfo(realmPubkey);
+    const accountInfo = await fetchAccountInfo(connection, realmPubkey);
 
     if (!accountInfo) {
       logWarning(`Realm account ${realmId} not found on-chain`);
       return null;
     }
 
-    // Verify the account is owned by the governance program
+    // Verify the account is owned by an allowed governance program
     const owner = accountInfo.owner.toString();
-    if (owner !== GOVERNANCE_PROGRAM_ID) {
-      logWarning(`Account ${realmId} is not owned by the governance program`);
+    if (!allowedPrograms.includes(owner)) {
+      logWarning(`Account ${realmId} is owned by ${owner}, which is not an allowed governance program`);
+      logWarning('Add it to governance_program_ids in config.json if this realm uses its own deployment');
       return null;
     }
 
-    const data = accountInfo.data;
-    
-    // Ensure we have enough data to read the community mint
-    if (data.length < REALM_COMMUNITY_MINT_OFFSET + PUBKEY_SIZE) {
-      logWarning(`Realm account data too short: ${data.length} bytes`);
+    if (owner !== GOVERNANCE_PROGRAM_ID) {
+      logInfo(`Using custom governance program: ${owner}`);
+    }
+
+    const realm = decodeRealm(accountInfo.data);
+    if (!realm) {
+      logWarning(`Account ${realmId} is not a realm (account type ${accountInfo.data[0]})`);
       return null;
     }
 
-    // Extract community mint pubkey (32 bytes starting at offset 1)
-    const communityMintBytes = data.slice(
-      REALM_COMMUNITY_MINT_OFFSET,
-      REALM_COMMUNITY_MINT_OFFSET + PUBKEY_SIZE
-    );
-    const communityMint = new PublicKey(communityMintBytes);
+    logSuccess(`Parsed realm community mint: ${realm.communityMint.toString()}`);
+    if (realm.councilMint) {
+      logSuccess(`Parsed realm council mint: ${realm.councilMint.toString()}`);
+    }
 
-    logSuccess(`Parsed realm community mint: ${communityMint.toString()}`);
+    const voterWeightPlugins = await fetchVoterWeightPlugins(connection, realmPubkey, accountInfo.owner);
+    for (const plugin of voterWeightPlugins) {
+      logSuccess(`Realm uses voter weight plugin: ${plugin}`);
+    }
 
     return {
-      communityMint
+      programId: accountInfo.owner,
+      communityMint: realm.communityMint,
+      councilMint: realm.councilMint,
+      voterWeightPlugins
     };
   } catch (error) {
+    if (error instanceof RpcError) {
+      throw error;
+    }
     logWarning(`Failed to parse realm data: ${(error as Error).message}`);
     return null;
   }
@@ -99,16 +180,17 @@ export async function parseRealmData(
  * @param realmId - The realm public key
  * @param governingTokenMint - The governing token mint (usually community mint)
  * @param walletAddress - The wallet address (or token account owner)
+ * @param governanceProgramId - The governance program deployment owning the realm
  * @returns The TokenOwnerRecord PDA
  */
 export function deriveTokenOwnerRecordAddress(
   realmId: string,
   governingTokenMint: PublicKey,
-  walletAddress: string
+  walletAddress: string,
+  governanceProgramId: PublicKey
 ): PublicKey {
   const realmPubkey = new PublicKey(realmId);
   const walletPubkey = new PublicKey(walletAddress);
-  const governanceProgramId = new PublicKey(GOVERNANCE_PROGRAM_ID);
 
   // Seeds: ["governance", realm, governing_token_mint, governing_token_owner]
   const seeds = [
@@ -128,32 +210,45 @@ export function deriveTokenOwnerRecordAddress(
 
 /**
  * Check if a TokenOwnerRecord account exists on-chain and validate its structure
+ * The account must decode as a TokenOwnerRecord (V1 or V2) for the expected realm,
+ * mint and owner.
  * @param connection - Solana connection
  * @param tokenOwnerRecord - The TokenOwnerRecord PDA
+ * @param governanceProgramId - The governance program deployment owning the realm
+ * @param expected - Realm, governing mint and owner the record was derived from
  * @returns true if the account exists and is valid
  */
 export async function tokenOwnerRecordExists(
   connection: Connection,
-  tokenOwnerRecord: PublicKey
+  tokenOwnerRecord: PublicKey,
+  governanceProgramId: PublicKey,
+  expected: { realm: PublicKey; mint: PublicKey; owner: PublicKey }
 ): Promise<boolean> {
   try {
-    await throttle();
-    const accountInfo = await connection.getAccountInfo(tokenOwnerRecord);
+    const accountInfo = await fetchAccountInfo(connection, tokenOwnerRecord);
     
     if (!accountInfo) {
       return false;
     }
 
     // Validate that the account is owned by the governance program
-    const owner = accountInfo.owner.toString();
-    if (owner !== GOVERNANCE_PROGRAM_ID) {
+    if (!accountInfo.owner.equals(governanceProgramId)) {
       logWarning(`TokenOwnerRecord ${tokenOwnerRecord.toString()} is not owned by governance program`);
       return false;
     }
 
-    // Validate minimum account size (TokenOwnerRecord should be at least 100+ bytes)
-    if (accountInfo.data.length < 100) {
-      logWarning(`TokenOwnerRecord ${tokenOwnerRecord.toString()} has suspiciously small data size: ${accountInfo.data.length}`);
+    const record = decodeTokenOwnerRecord(accountInfo.data);
+    if (!record) {
+      logWarning(`TokenOwnerRecord ${tokenOwnerRecord.toString()} does not decode as a TokenOwnerRecord (account type ${accountInfo.data[0]})`);
+      return false;
+    }
+
+    if (
+      !record.realm.equals(expected.realm) ||
+      !record.governingTokenMint.equals(expected.mint) ||
+      !record.governingTokenOwner.equals(expected.owner)
+    ) {
+      logWarning(`TokenOwnerRecord ${tokenOwnerRecord.toString()} belongs to another realm, mint or owner`);
       return false;
     }
 
@@ -165,12 +260,195 @@ export async function tokenOwnerRecordExists(
 }
 
 /**
- * VoteRecord account structure offsets (for parsing)
- * VoteRecord seeds: ["governance", governance_pubkey, proposal_pubkey, voter_token_owner_record]
+ * Derive and check the wallet's TokenOwnerRecords for every governing mint of the realm
+ * @param connection - Solana connection
+ * @param realmId - Realm public key string
+ * @param realmData - Parsed realm with community and optional council mint
+ * @param walletAddress - The wallet address (governing token owner)
+ * @returns One record per governing mint, community first
  */
-const VOTE_RECORD_DISCRIMINATOR_LENGTH = 8;
-const VOTE_RECORD_TOKEN_OWNER_RECORD_OFFSET = 8;
-const VOTE_RECORD_TOKEN_OWNER_RECORD_SIZE = 32;
+export async function fetchGoverningTokenOwnerRecords(
+  connection: Connection,
+  realmId: string,
+  realmData: RealmData,
+  walletAddress: string
+): Promise<GoverningTokenOwnerRecord[]> {
+  const mints: { kind: GoverningTokenKind; mint: PublicKey }[] = [
+    { kind: GoverningTokenKind.COMMUNITY, mint: realmData.communityMint }
+  ];
+  if (realmData.councilMint) {
+    mints.push({ kind: GoverningTokenKind.COUNCIL, mint: realmData.councilMint });
+  }
+
+  const records: GoverningTokenOwnerRecord[] = [];
+  for (const { kind, mint } of mints) {
+    const address = deriveTokenOwnerRecordAddress(realmId, mint, walletAddress, realmData.programId);
+    const exists = await tokenOwnerRecordExists(connection, address, realmData.programId, {
+      realm: new PublicKey(realmId),
+      mint,
+      owner: new PublicKey(walletAddress)
+    });
+    records.push({ kind, mint, address, exists, delegator: null });
+  }
+
+  return records;
+}
+
+/**
+ * Find every TokenOwnerRecord in the realm that names the wallet as governance delegate
+ * Each record version is matched on account type and realm, plus the Some(delegate)
+ * option at the delegate offset.
+ * @param connection - Solana connection
+ * @param realmId - Realm public key string
+ * @param realmData - Parsed realm with community and optional council mint
+ * @param walletAddress - The delegate wallet address
+ * @returns Delegated records
+ * @throws RpcError if the records cannot be listed, so a run never silently drops delegated votes
+ */
+export async function fetchDelegatedTokenOwnerRecords(
+  connection: Connection,
+  realmId: string,
+  realmData: RealmData,
+  walletAddress: string
+): Promise<GoverningTokenOwnerRecord[]> {
+  const realm = new PublicKey(realmId);
+  const delegate = new PublicKey(walletAddress);
+  const records: GoverningTokenOwnerRecord[] = [];
+
+  for (const accountType of TOKEN_OWNER_RECORD_TYPES) {
+    let accounts;
+    try {
+      accounts = await fetchProgramAccounts(connection, realmData.programId, {
+        filters: accountTypeFilters(accountType, [
+          { offset: TOKEN_OWNER_RECORD_OFFSETS.realm, bytes: realm.toBuffer() },
+          {
+            offset: TOKEN_OWNER_RECORD_OFFSETS.governanceDelegate,
+            bytes: Buffer.concat([Buffer.from([1]), delegate.toBuffer()])
+          }
+        ])
+      });
+    } catch (error) {
+      throw new RpcError(`Failed to list TokenOwnerRecords delegated to ${walletAddress}: ${(error as Error).message}`);
+    }
+
+    for (const { pubkey, account } of accounts) {
+      const record = decodeTokenOwnerRecord(account.data);
+      if (!record) {
+        continue;
+      }
+      const mint = record.governingTokenMint;
+      const owner = record.governingTokenOwner;
+      const kind = mint.equals(realmData.communityMint)
+        ? GoverningTokenKind.COMMUNITY
+        : realmData.councilMint?.equals(mint) ? GoverningTokenKind.COUNCIL : GoverningTokenKind.UNKNOWN;
+
+      records.push({ kind, mint, address: pubkey, exists: true, delegator: owner.toString() });
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Derive a governance's native treasury (the SOL wallet Realms shows for it)
+ *
+ * Native treasury seeds: ["native-treasury", governance]
+ *
+ * @param governance - The governance public key
+ * @param governanceProgramId - The governance program deployment owning the realm
+ */
+export function deriveNativeTreasuryAddress(governance: PublicKey, governanceProgramId: PublicKey): PublicKey {
+  const [treasury] = PublicKey.findProgramAddressSync(
+    [Buffer.from('native-treasury'), governance.toBuffer()],
+    governanceProgramId
+  );
+  return treasury;
+}
+
+/**
+ * Fetch every governance of a realm using getProgramAccounts
+ * Each governance account type is matched together with the realm stored right
+ * after the type byte.
+ * @param realmId - The realm public key
+ * @param governanceProgramId - The governance program deployment owning the realm
+ * @throws RpcError if the governances cannot be listed
+ */
+export async function fetchRealmGovernances(
+  connection: Connection,
+  realmId: string,
+  governanceProgramId: PublicKey
+): Promise<PublicKey[]> {
+  const realm = new PublicKey(realmId);
+  const governances: PublicKey[] = [];
+
+  for (const accountType of GOVERNANCE_TYPES) {
+    try {
+      const accounts = await fetchProgramAccounts(connection, governanceProgramId, {
+        dataSlice: { offset: 0, length: 0 },
+        filters: accountTypeFilters(accountType, [{ offset: GOVERNANCE_REALM_OFFSET, bytes: realm.toBuffer() }])
+      });
+      governances.push(...accounts.map(account => account.pubkey));
+    } catch (error) {
+      throw new RpcError(`Failed to list governances of realm ${realmId}: ${(error as Error).message}`);
+    }
+  }
+
+  return governances;
+}
+
+/**
+ * VoteRecord account data
+ */
+export interface VoteRecordData {
+  address: string;
+  proposal: string;
+  governingTokenOwner: string;
+  isRelinquished: boolean;
+  voterWeight: string; // Raw governing token amount (u64)
+  vote: DecodedVote | null;
+}
+
+/**
+ * Fetch and parse VoteRecord accounts
+ *
+ * VoteRecords relinquished while voting was still open are closed; those are
+ * left out of the result.
+ *
+ * @param connection - Solana connection
+ * @param programIds - Governance program deployments the records may belong to
+ * @param addresses - VoteRecord addresses
+ * @returns Parsed records per address
+ */
+export async function fetchVoteRecords(
+  connection: Connection,
+  programIds: Set<string>,
+  addresses: string[]
+): Promise<Map<string, VoteRecordData>> {
+  const records = new Map<string, VoteRecordData>();
+  if (addresses.length === 0) {
+    return records;
+  }
+
+  const accounts = await fetchMultipleAccounts(connection, addresses.map(address => new PublicKey(address)));
+  for (const [address, info] of accounts) {
+    if (!info || !programIds.has(info.owner.toString())) {
+      continue;
+    }
+    const record = decodeVoteRecord(info.data);
+    if (record) {
+      records.set(address, {
+        address,
+        proposal: record.proposal.toString(),
+        governingTokenOwner: record.governingTokenOwner.toString(),
+        isRelinquished: record.isRelinquished,
+        voterWeight: record.voterWeight.toString(),
+        vote: record.vote
+      });
+    }
+  }
+
+  return records;
+}
 
 /**
  * Interface for VoteRecord account info
@@ -181,80 +459,74 @@ export interface VoteRecordInfo {
   blockTime?: number;
 }
 
+/**
+ * Derive the VoteRecord PDA for a proposal and the voter's TokenOwnerRecord
+ *
+ * VoteRecord seeds: ["governance", proposal, token_owner_record]
+ */
+export function deriveVoteRecordAddress(
+  proposal: PublicKey,
+  tokenOwnerRecord: PublicKey,
+  governanceProgramId: PublicKey
+): PublicKey {
+  const [voteRecord] = PublicKey.findProgramAddressSync(
+    [Buffer.from('governance'), proposal.toBuffer(), tokenOwnerRecord.toBuffer()],
+    governanceProgramId
+  );
+  return voteRecord;
+}
+
 /**
  * Fetch VoteRecord accounts for a specific TokenOwnerRecord using getProgramAccounts
  * 
- * VoteRecord seeds: ["governance", governance_pubkey, proposal_pubkey, voter_token_owner_record]
- * We filter by the voter_token_owner_record (TokenOwnerRecord PDA) to find all votes.
+ * VoteRecords store the proposal and the governing token owner but not the
+ * TokenOwnerRecord, so each version is matched on account type and owner. The
+ * owner's records in other realms or for other mints are then dropped by checking
+ * that each VoteRecord is the PDA derived from its proposal and this TokenOwnerRecord.
  * 
  * @param connection - Solana connection
+ * @param governanceProgramId - The governance program deployment owning the realm
  * @param tokenOwnerRecord - The TokenOwnerRecord PDA to find votes for
+ * @param governingTokenOwner - Owner of the TokenOwnerRecord
  * @param startTimestamp - Start timestamp filter (optional)
  * @param endTimestamp - End timestamp filter (optional)
  * @returns Array of VoteRecord account public keys and metadata
  */
 export async function fetchVoteRecordsForTokenOwnerRecord(
   connection: Connection,
+  governanceProgramId: PublicKey,
   tokenOwnerRecord: PublicKey,
+  governingTokenOwner: PublicKey,
   startTimestamp?: number,
   endTimestamp?: number
 ): Promise<VoteRecordInfo[]> {
   try {
-    await throttle();
-    
-    const governanceProgramId = new PublicKey(GOVERNANCE_PROGRAM_ID);
-    
-    // Filter by TokenOwnerRecord in the account data
-    // TokenOwnerRecord is at offset 8 (after 8-byte discriminator)
-    // memcmp expects base58-encoded bytes as a string
-    const filters: GetProgramAccountsFilter[] = [
-      {
-        dataSize: 200, // VoteRecord accounts are typically around this size
-      },
-      {
-        memcmp: {
-          offset: VOTE_RECORD_TOKEN_OWNER_RECORD_OFFSET,
-          bytes: tokenOwnerRecord.toBase58(), // Base58-encoded public key bytes
-        },
-      },
-    ];
-
     logInfo(`  Querying VoteRecord accounts for TokenOwnerRecord ${tokenOwnerRecord.toString()}...`);
-    
-    const accounts = await connection.getProgramAccounts(governanceProgramId, {
-      filters,
-    });
-
-    logSuccess(`  Found ${accounts.length} VoteRecord accounts`);
 
     const voteRecords: VoteRecordInfo[] = [];
-    
-    for (const account of accounts) {
-      // Verify this is actually a VoteRecord by checking discriminator
-      // VoteRecord discriminator is the first 8 bytes
-      const accountData = account.account.data;
-      
-      if (accountData.length < VOTE_RECORD_TOKEN_OWNER_RECORD_OFFSET + VOTE_RECORD_TOKEN_OWNER_RECORD_SIZE) {
-        continue; // Skip if account data is too short
-      }
-
-      // Extract TokenOwnerRecord from account data to verify
-      const torBytes = accountData.slice(
-        VOTE_RECORD_TOKEN_OWNER_RECORD_OFFSET,
-        VOTE_RECORD_TOKEN_OWNER_RECORD_OFFSET + VOTE_RECORD_TOKEN_OWNER_RECORD_SIZE
-      );
-      const extractedTor = new PublicKey(torBytes);
-      
-      // Verify it matches our TokenOwnerRecord
-      if (!extractedTor.equals(tokenOwnerRecord)) {
-        continue;
-      }
 
-      voteRecords.push({
-        pubkey: account.pubkey,
+    for (const accountType of VOTE_RECORD_TYPES) {
+      const accounts = await fetchProgramAccounts(connection, governanceProgramId, {
+        // proposal
+        dataSlice: { offset: VOTE_RECORD_OFFSETS.proposal, length: PUBKEY_SIZE },
+        filters: accountTypeFilters(accountType, [
+          { offset: VOTE_RECORD_OFFSETS.governingTokenOwner, bytes: governingTokenOwner.toBuffer() }
+        ])
       });
+
+      for (const { pubkey, account } of accounts) {
+        if (account.data.length < PUBKEY_SIZE) {
+          continue;
+        }
+        const proposal = new PublicKey(account.data);
+        if (deriveVoteRecordAddress(proposal, tokenOwnerRecord, governanceProgramId).equals(pubkey)) {
+          voteRecords.push({ pubkey });
+        }
+      }
     }
 
+    logSuccess(`  Found ${voteRecords.length} VoteRecord accounts`);
+
     // If we have timestamps, we need to fetch transaction signatures for each VoteRecord
     // to filter by time. This is expensive, so we'll do it in batches.
     if ((startTimestamp !== undefined || endTimestamp !== undefined) && voteRecords.length > 0) {
@@ -264,14 +536,11 @@ export async function fetchVoteRecordsForTokenOwnerRecord(
       
       // Fetch signatures for each VoteRecord account to get timestamps
       for (let i = 0; i < voteRecords.length; i++) {
-        await throttle();
         const record = voteRecords[i];
         
         try {
           // Get the most recent signature for this account (when it was created/modified)
-          const signatures = await connection.getSignaturesForAddress(record.pubkey, {
-            limit: 1,
-          });
+          const signatures = await fetchRecentSignatures(connection, record.pubkey, 1);
 
           if (signatures.length > 0 && signatures[0].blockTime !== null && signatures[0].blockTime !== undefined) {
             const blockTime = signatures[0].blockTime;
@@ -311,15 +580,17 @@ export async function fetchVoteRecordsForTokenOwnerRecord(
  * Validate that a realm exists on-chain
  * @param connection - Solana connection
  * @param realmId - Realm public key string
+ * @param governanceProgramId - Expected governance program owning the realm
  * @returns true if realm exists
  */
 export async function validateRealm(
   connection: Connection,
-  realmId: string
+  realmId: string,
+  governanceProgramId: PublicKey
 ): Promise<boolean> {
   try {
     const realmPubkey = new PublicKey(realmId);
-    const accountInfo = await connection.getAccountInfo(realmPubkey);
+    const accountInfo = await fetchAccountInfo(connection, realmPubkey);
 
     if (!accountInfo) {
       logWarning(`Realm account ${realmId} not found on-chain`);
@@ -327,8 +598,7 @@ export async function validateRealm(
     }
 
     // Check if the account is owned by the governance program
-    const owner = accountInfo.owner.toString();
-    if (owner !== GOVERNANCE_PROGRAM_ID) {
+    if (!accountInfo.owner.equals(governanceProgramId)) {
       logWarning(`Account ${realmId} is not owned by the governance program`);
       return false;
     }
@@ -351,7 +621,7 @@ export async function getRealmInfo(
 ): Promise<{ exists: boolean; dataLength: number } | null> {
   try {
     const realmPubkey = new PublicKey(realmId);
-    const accountInfo = await connection.getAccountInfo(realmPubkey);
+    const accountInfo = await fetchAccountInfo(connection, realmPubkey);
 
     if (!accountInfo) {
       return null;
@@ -366,3 +636,78 @@ export async function getRealmInfo(
   }
 }
 
+
+/**
+ * Decoded proposals for the run, shared by every wallet
+ * Not persisted: proposal state keeps changing until the proposal is closed
+ */
+const proposalMetadataCache = new Map<string, ProposalMetadata>();
+
+/**
+ * Decode a Proposal account (V1 or V2)
+ * @returns Metadata, or null if the data is not a proposal or fails to decode
+ */
+function decodeProposalMetadata(address: string, data: Buffer): ProposalMetadata | null {
+  const proposal = decodeProposal(data);
+  if (!proposal) {
+    logWarning(`Failed to decode proposal ${address} (account type ${data[0]})`);
+    return null;
+  }
+
+  return {
+    address,
+    governance: proposal.governance.toString(),
+    name: proposal.name,
+    descriptionLink: proposal.descriptionLink,
+    state: proposal.state,
+    draftAt: proposal.draftAt,
+    signingOffAt: proposal.signingOffAt,
+    votingAt: proposal.votingAt,
+    votingCompletedAt: proposal.votingCompletedAt,
+    executingAt: proposal.executingAt,
+    closedAt: proposal.closedAt
+  };
+}
+
+/**
+ * Fetch and decode Proposal accounts
+ *
+ * Proposals already decoded in this run are not fetched again. Closed or
+ * undecodable proposals are left out of the result.
+ *
+ * @param connection - Solana connection
+ * @param programIds - Governance program deployments the proposals may belong to
+ * @param proposals - Proposal addresses
+ * @returns Metadata per proposal address
+ */
+export async function fetchProposalMetadata(
+  connection: Connection,
+  programIds: Set<string>,
+  proposals: string[]
+): Promise<Map<string, ProposalMetadata>> {
+  const pending = Array.from(new Set(proposals)).filter(address => !proposalMetadataCache.has(address));
+
+  if (pending.length > 0) {
+    logInfo(`Decoding ${pending.length} proposal accounts...`);
+    const accounts = await fetchMultipleAccounts(connection, pending.map(address => new PublicKey(address)));
+
+    for (const [address, info] of accounts) {
+      if (!info || !programIds.has(info.owner.toString())) {
+        continue;
+      }
+      const metadata = decodeProposalMetadata(address, info.data);
+      if (metadata) {
+        proposalMetadataCache.set(address, metadata);
+      }
+    }
+  }
+
+  const results = new Map<string, ProposalMetadata>();
+  for (const address of proposals) {
+    const metadata = proposalMetadataCache.get(address);
+    if (metadata) {
+      results.set(address, metadata);
+    }
+  }
+  return results;
+}
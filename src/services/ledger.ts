@@ -0,0 +1,377 @@
+/**
+ * Reimbursement ledger: what the DAO has already paid back
+ *
+ * Payments are found by scanning a realm's native treasuries for ExecuteTransaction
+ * instructions whose CPIs transfer SOL (System Program) or SPL tokens (signed by the
+ * treasury) to a tracked wallet. Each payment is then matched against the wallet's
+ * eligible costs:
+ * - FIFO: a payment covers the oldest unpaid costs incurred before it
+ * - Claim period: a payment whose proposal name carries a tag such as
+ *   `[claim 01-01-2025..03-31-2025]` covers costs in that period first; untagged
+ *   payments are then matched FIFO
+ * Whatever a payment cannot cover is reported as over-paid.
+ *
+ * Token payments in the reimbursement mint are valued at the configured token price
+ * (USD) converted to SOL at the payment's block time. Transfers of other mints, and
+ * any token payment without a price series, are listed but not matched.
+ */
+
+import {
+  Connection,
+  PublicKey,
+  ParsedTransactionWithMeta,
+  ParsedInstruction,
+  PartiallyDecodedInstruction
+} from '@solana/web3.js';
+import {
+  TrackingResults,
+  ReimbursementPayment,
+  ReimbursementLedger,
+  LedgerEntry,
+  LedgerMatchRule,
+  PricePoint,
+  TransactionType
+} from '../types';
+import { LAMPORTS_PER_SOL } from '../constants';
+import { fetchSignaturesForAddress, fetchTransactionsBatch } from './solana';
+import { fetchProposalMetadata } from './governance';
+import { getGovernanceInstructions } from './transaction-parser';
+import { EligibilityRule, getEligibleLamports } from './reimbursement';
+import { getSolPrice } from './pricing';
+import { parseDateToTimestamp, parseEndDateToTimestamp } from '../utils/date-utils';
+import { logInfo } from '../utils/logger';
+
+/**
+ * ExecuteTransaction accounts: governance, proposal, proposal transaction, ...
+ */
+const EXECUTE_PROPOSAL_ACCOUNT_INDEX = 1;
+
+/**
+ * Claim-period tag in a proposal name, e.g. "[claim 01-01-2025..03-31-2025]"
+ */
+const CLAIM_TAG = /\[claim\s+(\d{2}-\d{2}-\d{4})\s*(?:\.\.|to)\s*(\d{2}-\d{2}-\d{4})\]/i;
+
+const SOL_DECIMALS = 9;
+
+/**
+ * Read the claim period from a proposal name
+ * @returns The tagged period, or null if the name has no valid tag
+ */
+export function parseClaimTag(name: string): { startTimestamp: number; endTimestamp: number } | null {
+  const match = CLAIM_TAG.exec(name);
+  if (!match) {
+    return null;
+  }
+
+  try {
+    return {
+      startTimestamp: parseDateToTimestamp(match[1]),
+      endTimestamp: parseEndDateToTimestamp(match[2])
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get a parsed transfer's recipient and amount when the treasury pays a tracked wallet
+ * @returns null if the instruction is not such a transfer
+ */
+function readTransfer(
+  tx: ParsedTransactionWithMeta,
+  instruction: ParsedInstruction,
+  treasury: string,
+  wallets: Set<string>
+): { wallet: string; mint: string | null; amount: string; decimals: number } | null {
+  const { type, info } = instruction.parsed ?? {};
+  if (!info) {
+    return null;
+  }
+
+  if (instruction.program === 'system' && (type === 'transfer' || type === 'transferWithSeed')) {
+    if (info.source !== treasury || !wallets.has(info.destination)) {
+      return null;
+    }
+    return { wallet: info.destination, mint: null, amount: String(info.lamports), decimals: SOL_DECIMALS };
+  }
+
+  if (instruction.program.startsWith('spl-token') && (type === 'transfer' || type === 'transferChecked')) {
+    if ((info.authority ?? info.multisigAuthority) !== treasury) {
+      return null;
+    }
+
+    // The recipient is the owner of the destination token account
+    const accountIndex = tx.transaction.message.accountKeys
+      .findIndex(key => key.pubkey.toString() === info.destination);
+    const balance = tx.meta?.postTokenBalances?.find(entry => entry.accountIndex === accountIndex);
+    if (!balance?.owner || !wallets.has(balance.owner)) {
+      return null;
+    }
+
+    return {
+      wallet: balance.owner,
+      mint: balance.mint,
+      amount: String(info.tokenAmount?.amount ?? info.amount),
+      decimals: balance.uiTokenAmount.decimals
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Inner instructions run by an ExecuteTransaction
+ * A top-level execute runs every inner instruction of its outer instruction. An
+ * execute invoked through CPI only runs the inner instructions right after it with a
+ * greater stack height; the first one at its own height or above belongs to its
+ * caller. Without stack heights (transactions from before the RPC reported them)
+ * the extent of a CPI execute is unknown, so nothing is attributed to it.
+ * @param inner - Inner instructions of the outer instruction
+ * @param innerIndex - Position of the execute among them, null for a top-level execute
+ */
+function getExecutedInstructions(
+  inner: (ParsedInstruction | PartiallyDecodedInstruction)[],
+  innerIndex: number | null
+): (ParsedInstruction | PartiallyDecodedInstruction)[] {
+  if (innerIndex === null) {
+    return inner;
+  }
+
+  const stackHeight = (instruction: ParsedInstruction | PartiallyDecodedInstruction): number | null =>
+    (instruction as { stackHeight?: number | null }).stackHeight ?? null;
+  const executeHeight = stackHeight(inner[innerIndex]);
+  const executed: (ParsedInstruction | PartiallyDecodedInstruction)[] = [];
+
+  for (const instruction of inner.slice(innerIndex + 1)) {
+    const height = stackHeight(instruction);
+    if (executeHeight === null || height === null || height <= executeHeight) {
+      break;
+    }
+    executed.push(instruction);
+  }
+  return executed;
+}
+
+/**
+ * Find the reimbursement payments a treasury transaction made to tracked wallets
+ * Only transfers made by an ExecuteTransaction instruction (or its CPIs) count.
+ * @param treasury - Native treasury address
+ * @param governanceProgramId - The governance program deployment owning the realm
+ * @param wallets - Tracked wallet addresses
+ */
+export function extractTreasuryPayments(
+  signature: string,
+  tx: ParsedTransactionWithMeta,
+  treasury: string,
+  governanceProgramId: string,
+  wallets: Set<string>
+): ReimbursementPayment[] {
+  if (!tx.meta || tx.meta.err || !tx.blockTime) {
+    return [];
+  }
+
+  const innerByOuter = new Map(tx.meta.innerInstructions?.map(inner => [inner.index, inner.instructions]) ?? []);
+  const payments: ReimbursementPayment[] = [];
+  const scanned = new Set<string>();
+
+  for (const governanceInstruction of getGovernanceInstructions(tx, governanceProgramId)) {
+    const { outerIndex, innerIndex } = governanceInstruction;
+    const key = innerIndex === null ? `${outerIndex}` : `${outerIndex}.${innerIndex}`;
+    if (governanceInstruction.transactionType !== TransactionType.EXECUTE || scanned.has(key)) {
+      continue;
+    }
+    scanned.add(key);
+
+    const inner = innerByOuter.get(outerIndex) ?? [];
+    const execute = (innerIndex === null
+      ? tx.transaction.message.instructions[outerIndex]
+      : inner[innerIndex]) as PartiallyDecodedInstruction;
+    const proposal = execute.accounts?.[EXECUTE_PROPOSAL_ACCOUNT_INDEX]?.toString() ?? null;
+
+    for (const instruction of getExecutedInstructions(inner, innerIndex)) {
+      if (!('parsed' in instruction)) {
+        continue;
+      }
+      const transfer = readTransfer(tx, instruction, treasury, wallets);
+      if (!transfer) {
+        continue;
+      }
+
+      payments.push({
+        signature,
+        blockTime: tx.blockTime,
+        wallet: transfer.wallet,
+        treasury,
+        proposal,
+        proposalName: null,
+        claimPeriod: null,
+        mint: transfer.mint,
+        amount: transfer.amount,
+        decimals: transfer.decimals,
+        lamports: transfer.mint === null ? Number(transfer.amount) : null,
+        applied: 0
+      });
+    }
+  }
+
+  return payments;
+}
+
+/**
+ * Value token payments in lamports at the SOL price of their block time
+ * @param tokenPrice - USD per token
+ */
+function valueTokenPayments(
+  payments: ReimbursementPayment[],
+  priceSeries: PricePoint[] | null,
+  tokenMint: string | null,
+  tokenPrice: number
+): void {
+  for (const payment of payments) {
+    if (payment.mint === null || payment.mint !== tokenMint || !priceSeries) {
+      continue;
+    }
+    const solPrice = getSolPrice(priceSeries, payment.blockTime);
+    if (solPrice !== null) {
+      const usd = Number(payment.amount) / 10 ** payment.decimals * tokenPrice;
+      payment.lamports = Math.round(usd / solPrice * LAMPORTS_PER_SOL);
+    }
+  }
+}
+
+/**
+ * Scan native treasuries for reimbursement payments to tracked wallets
+ * Payments made from the start of the tracking window up to now are included.
+ * @param treasuries - Native treasury addresses
+ * @param governanceProgramId - The governance program deployment owning the realm
+ * @param wallets - Tracked wallet addresses
+ * @param startTimestamp - Earliest payment time
+ * @param priceSeries - SOL/USD prices for valuing token payments
+ * @param tokenMint - The reimbursement token; payments in other tokens are listed unvalued
+ * @param tokenPrice - USD per token of tokenMint
+ */
+export async function fetchTreasuryPayments(
+  connection: Connection,
+  treasuries: PublicKey[],
+  governanceProgramId: PublicKey,
+  wallets: Set<string>,
+  startTimestamp: number,
+  priceSeries: PricePoint[] | null,
+  tokenMint: string | null,
+  tokenPrice: number
+): Promise<ReimbursementPayment[]> {
+  const now = Math.floor(Date.now() / 1000);
+  const payments: ReimbursementPayment[] = [];
+
+  for (const treasury of treasuries) {
+    logInfo(`Scanning treasury ${treasury.toString()}...`);
+    const signatures = await fetchSignaturesForAddress(connection, treasury, startTimestamp, now);
+    const transactions = await fetchTransactionsBatch(connection, signatures.map(sig => sig.signature));
+
+    for (const [signature, tx] of transactions) {
+      if (tx) {
+        payments.push(...extractTreasuryPayments(signature, tx, treasury.toString(), governanceProgramId.toString(), wallets));
+      }
+    }
+  }
+
+  // Proposal names carry the claim-period tags
+  const proposals = Array.from(new Set(payments.map(payment => payment.proposal).filter((p): p is string => p !== null)));
+  const metadata = await fetchProposalMetadata(connection, new Set([governanceProgramId.toString()]), proposals);
+  for (const payment of payments) {
+    const proposal = payment.proposal ? metadata.get(payment.proposal) : undefined;
+    if (proposal) {
+      payment.proposalName = proposal.name;
+      payment.claimPeriod = parseClaimTag(proposal.name);
+    }
+  }
+
+  valueTokenPayments(payments, priceSeries, tokenMint, tokenPrice);
+  return payments.sort((a, b) => a.blockTime - b.blockTime);
+}
+
+/**
+ * Apply a payment to the outstanding entries it may cover, oldest first
+ */
+function applyPayment(payment: ReimbursementPayment, entries: LedgerEntry[]): void {
+  let remaining = (payment.lamports ?? 0) - payment.applied;
+
+  for (const entry of entries) {
+    if (remaining <= 0) {
+      break;
+    }
+    if (entry.outstanding <= 0) {
+      continue;
+    }
+
+    const amount = Math.min(entry.outstanding, remaining);
+    entry.paid += amount;
+    entry.outstanding -= amount;
+    entry.paidBy.push(payment.signature);
+    payment.applied += amount;
+    remaining -= amount;
+  }
+}
+
+/**
+ * Match a wallet's payments against its eligible costs
+ * @param resultsList - Tracking results for one wallet (one entry per realm)
+ * @param payments - The wallet's payments, oldest first
+ * @param rule - Reimbursement basis and eligible transaction types
+ * @param matchRule - FIFO or claim-period matching
+ */
+export function buildLedger(
+  resultsList: TrackingResults[],
+  payments: ReimbursementPayment[],
+  rule: EligibilityRule,
+  matchRule: LedgerMatchRule
+): ReimbursementLedger {
+  const entries: LedgerEntry[] = [];
+  for (const results of resultsList) {
+    for (const tx of results.transactions) {
+      const eligible = getEligibleLamports(tx, results, rule);
+      if (eligible === 0) {
+        continue;
+      }
+      entries.push({
+        signature: tx.signature,
+        blockTime: tx.blockTime,
+        transactionType: tx.transactionType,
+        eligible,
+        paid: 0,
+        outstanding: Math.max(eligible, 0),
+        paidBy: []
+      });
+    }
+  }
+  entries.sort((a, b) => a.blockTime - b.blockTime);
+
+  if (matchRule === LedgerMatchRule.CLAIM_PERIOD) {
+    for (const payment of payments) {
+      const period = payment.claimPeriod;
+      if (period) {
+        applyPayment(payment, entries.filter(
+          entry => entry.blockTime >= period.startTimestamp && entry.blockTime <= period.endTimestamp
+        ));
+      }
+    }
+  }
+
+  for (const payment of payments) {
+    if (matchRule === LedgerMatchRule.CLAIM_PERIOD && payment.claimPeriod) {
+      continue;
+    }
+    applyPayment(payment, entries.filter(entry => entry.blockTime <= payment.blockTime));
+  }
+
+  return {
+    matchRule,
+    entries,
+    payments,
+    eligible: entries.reduce((sum, entry) => sum + entry.eligible, 0),
+    paid: entries.reduce((sum, entry) => sum + entry.paid, 0),
+    outstanding: entries.reduce((sum, entry) => sum + entry.outstanding, 0),
+    overpaid: payments.reduce((sum, payment) => sum + Math.max((payment.lamports ?? 0) - payment.applied, 0), 0),
+    unvaluedPayments: payments.filter(payment => payment.lamports === null).length
+  };
+}
@@ -0,0 +1,210 @@
+/**
+ * SOL/USD price series for USD valuation
+ *
+ * Prices are read from a local file, either CSV (`timestamp,price` per line, with
+ * an optional header) or JSON (an array of `{ "timestamp": ..., "price": ... }`
+ * objects or `[timestamp, price]` pairs, or an object with such an array under
+ * `prices`, as exported by CoinGecko). Timestamps may be Unix seconds, Unix
+ * milliseconds or date strings (YYYY-MM-DD is read as midnight UTC).
+ *
+ * Interpolation rule: the price at a block time is linearly interpolated between
+ * the nearest price points before and after it. The last point covers one series
+ * interval (the gap between the last two points) after it at its own price, so a
+ * daily series priced at midnight UTC covers the whole last day. Block times
+ * before the first point or past that interval are outside the price data and
+ * are not valued.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { PricePoint, TrackedTransaction, UsdValuation } from '../types';
+import { LAMPORTS_PER_SOL } from '../constants';
+import { ConfigError } from '../errors';
+
+/**
+ * Timestamps above this are taken to be milliseconds
+ */
+const MILLISECOND_THRESHOLD = 1e12;
+
+/**
+ * Parse a timestamp given as Unix seconds, Unix milliseconds or a date string
+ * @returns Unix timestamp in seconds, or null if unparseable
+ */
+function parsePriceTimestamp(value: unknown): number | null {
+  if (typeof value === 'number' || (typeof value === 'string' && /^\d+(\.\d+)?$/.test(value.trim()))) {
+    const numeric = Number(value);
+    if (!Number.isFinite(numeric)) {
+      return null;
+    }
+    return Math.floor(numeric > MILLISECOND_THRESHOLD ? numeric / 1000 : numeric);
+  }
+
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value.trim());
+    return Number.isNaN(parsed) ? null : Math.floor(parsed / 1000);
+  }
+
+  return null;
+}
+
+/**
+ * Parse a USD price
+ * @returns The price, or null if not a positive number
+ */
+function parsePrice(value: unknown): number | null {
+  const price = typeof value === 'string' ? Number(value.trim()) : value;
+  return typeof price === 'number' && Number.isFinite(price) && price > 0 ? price : null;
+}
+
+/**
+ * Read price points from CSV lines
+ * The first line is skipped when it is a header (no numeric price)
+ */
+function parseCsvPrices(content: string, filename: string): PricePoint[] {
+  const lines = content.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+  const points: PricePoint[] = [];
+
+  lines.forEach((line, index) => {
+    const [timestampField, priceField] = line.split(',').map(field => field.trim().replace(/^"|"$/g, ''));
+    const timestamp = parsePriceTimestamp(timestampField);
+    const price = parsePrice(priceField);
+
+    if (timestamp === null || price === null) {
+      if (index === 0) {
+        return; // Header
+      }
+      throw new ConfigError(`Invalid price entry on line ${index + 1} of ${filename}: ${line}`);
+    }
+    points.push({ timestamp, price });
+  });
+
+  return points;
+}
+
+/**
+ * Read price points from parsed JSON
+ */
+function parseJsonPrices(data: unknown, filename: string): PricePoint[] {
+  const entries = Array.isArray(data)
+    ? data
+    : (data as { prices?: unknown } | null)?.prices;
+
+  if (!Array.isArray(entries)) {
+    throw new ConfigError(`${filename} must contain an array of price entries (or a "prices" array)`);
+  }
+
+  return entries.map((entry, index) => {
+    const [rawTimestamp, rawPrice] = Array.isArray(entry)
+      ? entry
+      : [entry?.timestamp ?? entry?.time ?? entry?.date, entry?.price];
+    const timestamp = parsePriceTimestamp(rawTimestamp);
+    const price = parsePrice(rawPrice);
+
+    if (timestamp === null || price === null) {
+      throw new ConfigError(`Invalid price entry ${index} in ${filename}: ${JSON.stringify(entry)}`);
+    }
+    return { timestamp, price };
+  });
+}
+
+/**
+ * Load a SOL/USD price series from a CSV or JSON file
+ * @param filepath - Price file path
+ * @returns Price points sorted by time (later duplicates replace earlier ones)
+ * @throws ConfigError if the file is missing, malformed or empty
+ */
+export function loadPriceSeries(filepath: string): PricePoint[] {
+  const filename = path.basename(filepath);
+  if (!fs.existsSync(filepath)) {
+    throw new ConfigError(`Price file not found: ${filepath}`);
+  }
+
+  const content = fs.readFileSync(filepath, 'utf-8');
+  let points: PricePoint[];
+
+  if (filepath.toLowerCase().endsWith('.json')) {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      throw new ConfigError(`Invalid JSON in ${filename}`);
+    }
+    points = parseJsonPrices(data, filename);
+  } else {
+    points = parseCsvPrices(content, filename);
+  }
+
+  const byTimestamp = new Map(points.map(point => [point.timestamp, point]));
+  const series = Array.from(byTimestamp.values()).sort((a, b) => a.timestamp - b.timestamp);
+
+  if (series.length === 0) {
+    throw new ConfigError(`No prices found in ${filename}`);
+  }
+
+  return series;
+}
+
+/**
+ * Get the SOL/USD price at a point in time by linear interpolation
+ * @param series - Price points sorted by time
+ * @param timestamp - Unix timestamp in seconds
+ * @returns USD per SOL, or null if the timestamp is outside the price data
+ */
+export function getSolPrice(series: PricePoint[], timestamp: number): number | null {
+  if (series.length === 0 || timestamp < series[0].timestamp) {
+    return null;
+  }
+
+  // The last point holds for one series interval after it
+  const last = series[series.length - 1];
+  if (timestamp >= last.timestamp) {
+    const interval = series.length > 1 ? last.timestamp - series[series.length - 2].timestamp : 0;
+    return timestamp <= last.timestamp + interval ? last.price : null;
+  }
+
+  // Binary search for the first point at or after the timestamp
+  let low = 0;
+  let high = series.length - 1;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (series[mid].timestamp < timestamp) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  const after = series[low];
+  if (after.timestamp === timestamp || low === 0) {
+    return after.price;
+  }
+
+  const before = series[low - 1];
+  const fraction = (timestamp - before.timestamp) / (after.timestamp - before.timestamp);
+  return before.price + (after.price - before.price) * fraction;
+}
+
+/**
+ * Convert lamports to USD at a SOL price
+ */
+export function lamportsToUsd(lamports: number, solPrice: number): number {
+  return (lamports / LAMPORTS_PER_SOL) * solPrice;
+}
+
+/**
+ * Value a transaction's fee, net rent and net cost in USD at its block time
+ * @param series - Price points sorted by time
+ */
+export function valueTransaction(tx: TrackedTransaction, series: PricePoint[]): UsdValuation {
+  const solPrice = getSolPrice(series, tx.blockTime);
+  if (solPrice === null) {
+    return { solPrice: null, fee: null, rent: null, total: null };
+  }
+
+  return {
+    solPrice,
+    fee: lamportsToUsd(tx.transactionFee, solPrice),
+    rent: lamportsToUsd(tx.rentCost, solPrice),
+    total: lamportsToUsd(tx.totalCost, solPrice)
+  };
+}
@@ -0,0 +1,292 @@
+/**
+ * Realm membership resolution for governance accounts
+ *
+ * Every governance account can be walked back to the realm it belongs to:
+ * - Governance, TokenOwnerRecord and RealmConfig accounts store the realm directly
+ * - Proposals store their governance
+ * - VoteRecords, SignatoryRecords, ProposalTransactions and ProposalDeposits store their proposal
+ * - Voter weight plugin records and registrars of the realms' plugins store the realm directly
+ *
+ * The parser uses the resolved mapping to decide which configured realm a transaction
+ * touches, or whether it belongs to another DAO the wallet participates in. A single
+ * membership cache is shared by every realm and wallet in a run.
+ */
+
+import { Connection, PublicKey, AccountInfo } from '@solana/web3.js';
+import { GovernanceAccountType } from '../types';
+import { fetchMultipleAccounts } from './solana';
+import { deriveTokenOwnerRecordAddress } from './governance';
+import { GOVERNANCE_TYPES, decodeGovernanceAccount, decodePluginAccount } from './account-decoder';
+
+/**
+ * Maximum parent hops (VoteRecord -> Proposal -> Governance -> Realm)
+ */
+const MAX_PARENT_DEPTH = 4;
+
+/**
+ * Resolved realm ownership for governance accounts seen in transactions
+ */
+export interface RealmMembership {
+  programIds: Set<string>; // Governance program deployments owning the configured realms
+  pluginProgramIds: Set<string>; // Voter weight plugins configured for the realms
+  /** Owning realm per address; null when the address is not a realm-scoped governance account */
+  accountRealms: Map<string, string | null>;
+  /** Governance account type per resolved address owned by a governance program */
+  accountTypes: Map<string, GovernanceAccountType>;
+  /** Parent governance or proposal per resolved proposal-scoped account */
+  accountParents: Map<string, string>;
+  /** Governing token owner per resolved TokenOwnerRecord or VoterWeightRecord */
+  tokenOwners: Map<string, string>;
+}
+
+/**
+ * Governance and proposal a transaction acted on
+ */
+export interface ProposalScope {
+  governance: string | null;
+  proposal: string | null;
+}
+
+/**
+ * How an account links back to its realm
+ */
+type RealmLink =
+  | { kind: 'realm'; realm: string; tokenOwner?: string }
+  | { kind: 'parent'; parent: string }
+  | { kind: 'none' };
+
+/**
+ * Create an empty membership map for the configured realms
+ * @param realms - Realm addresses with the governance program that owns each and its voter weight plugins
+ */
+export function createRealmMembership(
+  realms: { realmId: string; programId: PublicKey; voterWeightPlugins: string[] }[]
+): RealmMembership {
+  return {
+    programIds: new Set(realms.map(r => r.programId.toString())),
+    pluginProgramIds: new Set(realms.flatMap(r => r.voterWeightPlugins)),
+    accountRealms: new Map(realms.map(r => [r.realmId, r.realmId] as [string, string])),
+    accountTypes: new Map(),
+    accountParents: new Map(),
+    tokenOwners: new Map()
+  };
+}
+
+/**
+ * Determine how a voter weight plugin account links back to its realm
+ * A registrar's realm is only trusted if it names one of the governance programs.
+ */
+function readPluginRealmLink(info: AccountInfo<Buffer>, programIds: Set<string>): RealmLink {
+  const account = decodePluginAccount(info.data);
+  if (!account || (account.governanceProgramId && !programIds.has(account.governanceProgramId.toString()))) {
+    return { kind: 'none' };
+  }
+  const realm = account.realm.toString();
+  return { kind: 'realm', realm, tokenOwner: account.governingTokenOwner?.toString() };
+}
+
+/**
+ * Determine how a governance account links back to its realm
+ */
+function readRealmLink(
+  address: string,
+  info: AccountInfo<Buffer> | null,
+  membership: RealmMembership
+): RealmLink {
+  if (!info) {
+    return { kind: 'none' };
+  }
+  if (membership.pluginProgramIds.has(info.owner.toString())) {
+    return readPluginRealmLink(info, membership.programIds);
+  }
+  if (!membership.programIds.has(info.owner.toString())) {
+    return { kind: 'none' };
+  }
+
+  const account = decodeGovernanceAccount(info.data);
+  if (!account) {
+    return { kind: 'none' };
+  }
+
+  switch (account.kind) {
+    case 'realm':
+      return { kind: 'realm', realm: address };
+
+    case 'tokenOwnerRecord': {
+      const realm = account.realm.toString();
+      const owner = account.governingTokenOwner.toString();
+      // Only trust the realm field if the record is the PDA derived from it
+      const expected = deriveTokenOwnerRecordAddress(realm, account.governingTokenMint, owner, info.owner);
+      return expected.toString() === address ? { kind: 'realm', realm, tokenOwner: owner } : { kind: 'none' };
+    }
+
+    case 'governance':
+    case 'realmConfig':
+      return { kind: 'realm', realm: account.realm.toString() };
+
+    case 'proposal':
+    case 'requiredSignatory':
+      return { kind: 'parent', parent: account.governance.toString() };
+
+    case 'signatoryRecord':
+    case 'voteRecord':
+    case 'proposalTransaction':
+    case 'proposalDeposit':
+      return { kind: 'parent', parent: account.proposal.toString() };
+  }
+}
+
+/**
+ * Resolve the owning realm of every given address, fetching parent accounts as needed
+ * Results are cached on the membership so repeated calls only fetch new accounts
+ * @param connection - Solana connection
+ * @param membership - Membership map to populate
+ * @param addresses - Accounts referenced by governance instructions
+ */
+export async function resolveAccountRealms(
+  connection: Connection,
+  membership: RealmMembership,
+  addresses: string[]
+): Promise<void> {
+  const { accountRealms, accountTypes } = membership;
+  const parents = membership.accountParents;
+  let pending = Array.from(new Set(addresses)).filter(a => !accountRealms.has(a));
+
+  while (pending.length > 0) {
+    const accounts = await fetchMultipleAccounts(
+      connection,
+      pending.map(a => new PublicKey(a))
+    );
+    const next = new Set<string>();
+
+    for (const [address, info] of accounts) {
+      const link = readRealmLink(address, info, membership);
+      if (link.kind !== 'none' && membership.programIds.has(info!.owner.toString())) {
+        accountTypes.set(address, info!.data[0]);
+      }
+
+      if (link.kind === 'realm') {
+        accountRealms.set(address, link.realm);
+        if (link.tokenOwner) {
+          membership.tokenOwners.set(address, link.tokenOwner);
+        }
+      } else if (link.kind === 'parent') {
+        parents.set(address, link.parent);
+        if (!accountRealms.has(link.parent) && !parents.has(link.parent)) {
+          next.add(link.parent);
+        }
+      } else {
+        accountRealms.set(address, null);
+      }
+    }
+
+    pending = Array.from(next).filter(a => !accounts.has(a));
+  }
+
+  // Settle parent chains now that every ancestor has been fetched
+  for (const address of parents.keys()) {
+    if (accountRealms.has(address)) {
+      continue;
+    }
+    let current: string | undefined = address;
+    let depth = 0;
+
+    while (current !== undefined && !accountRealms.has(current) && depth < MAX_PARENT_DEPTH) {
+      current = parents.get(current);
+      depth++;
+    }
+
+    const realm = current !== undefined ? accountRealms.get(current) ?? null : null;
+    accountRealms.set(address, realm);
+  }
+}
+
+/**
+ * Get the resolved realm for an address
+ * @returns The realm address, null if not realm-scoped, or undefined if never resolved
+ */
+export function getAccountRealm(
+  membership: RealmMembership,
+  address: string
+): string | null | undefined {
+  return membership.accountRealms.get(address);
+}
+
+/**
+ * Proposal-scoped account types whose parent is a proposal
+ */
+const PROPOSAL_CHILD_TYPES = new Set<GovernanceAccountType>([
+  GovernanceAccountType.SignatoryRecordV1,
+  GovernanceAccountType.SignatoryRecordV2,
+  GovernanceAccountType.VoteRecordV1,
+  GovernanceAccountType.VoteRecordV2,
+  GovernanceAccountType.ProposalInstructionV1,
+  GovernanceAccountType.ProposalTransactionV2,
+  GovernanceAccountType.ProposalDeposit
+]);
+
+/**
+ * Find the governance and proposal a set of instruction accounts acted on within a realm
+ * Proposals are found directly or through a child account (VoteRecord, SignatoryRecord,
+ * ProposalTransaction, ProposalDeposit); the governance falls back to the proposal's parent.
+ * @param membership - Resolved membership (accounts must already be resolved)
+ * @param accounts - Accounts referenced by the transaction's governance instructions
+ * @param realmId - Realm the transaction was assigned to
+ */
+export function getProposalScope(
+  membership: RealmMembership,
+  accounts: string[],
+  realmId: string
+): ProposalScope {
+  const { accountTypes, accountParents } = membership;
+  let governance: string | null = null;
+  let proposal: string | null = null;
+
+  for (const account of accounts) {
+    if (getAccountRealm(membership, account) !== realmId) {
+      continue;
+    }
+    const type = accountTypes.get(account);
+    if (type === undefined) {
+      continue;
+    }
+
+    if (type === GovernanceAccountType.ProposalV1 || type === GovernanceAccountType.ProposalV2) {
+      proposal = proposal ?? account;
+    } else if (PROPOSAL_CHILD_TYPES.has(type)) {
+      proposal = proposal ?? accountParents.get(account) ?? null;
+    } else if (GOVERNANCE_TYPES.includes(type)) {
+      governance = governance ?? account;
+    } else if (type === GovernanceAccountType.RequiredSignatory) {
+      governance = governance ?? accountParents.get(account) ?? null;
+    }
+  }
+
+  if (proposal && !governance) {
+    governance = accountParents.get(proposal) ?? null;
+  }
+
+  return { governance, proposal };
+}
+
+/**
+ * Find the governing token owners of the TokenOwnerRecords a set of instruction
+ * accounts acted on within a realm
+ * @param membership - Resolved membership (accounts must already be resolved)
+ * @param accounts - Accounts referenced by the transaction's governance instructions
+ * @param realmId - Realm the transaction was assigned to
+ */
+export function getTokenOwners(
+  membership: RealmMembership,
+  accounts: string[],
+  realmId: string
+): string[] {
+  const owners = new Set<string>();
+  for (const account of accounts) {
+    const owner = membership.tokenOwners.get(account);
+    if (owner && getAccountRealm(membership, account) === realmId) {
+      owners.add(owner);
+    }
+  }
+  return Array.from(owners);
+}
@@ -0,0 +1,258 @@
+/**
+ * Reimbursement proposal payloads
+ *
+ * Turns tracking results into the instructions a Realms proposal needs to pay a
+ * wallet back from the DAO's native treasury: a SOL transfer, or an SPL token
+ * transfer (creating the recipient's associated token account if needed). The
+ * native treasury is a governance PDA, so it signs when the proposal executes.
+ *
+ * Instructions are serialized the way Realms' "custom instruction" field expects:
+ * base64 of the borsh-encoded InstructionData
+ * { program_id: Pubkey, accounts: Vec<AccountMetaData>, data: Vec<u8> }
+ * with AccountMetaData { pubkey: Pubkey, is_signer: bool, is_writable: bool }.
+ * Nothing is signed or submitted.
+ */
+
+import {
+  Connection,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction
+} from '@solana/web3.js';
+import {
+  TrackingResults,
+  TrackedTransaction,
+  TransactionType,
+  TransactionStatus,
+  ReimbursementBasis
+} from '../types';
+import {
+  TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  ASSOCIATED_TOKEN_PROGRAM_ID
+} from '../constants';
+import { ConfigError } from '../errors';
+import { fetchAccountInfo } from './solana';
+import { allocateCost, getReimbursableFee } from './transaction-parser';
+import { lamportsToUsd } from './pricing';
+
+/**
+ * SPL Token instruction: TransferChecked
+ */
+const TRANSFER_CHECKED_INSTRUCTION = 12;
+
+/**
+ * Associated Token Account instruction: CreateIdempotent
+ */
+const CREATE_IDEMPOTENT_INSTRUCTION = 1;
+
+/**
+ * Offset of `decimals` in an SPL mint account (after mint_authority and supply)
+ */
+const MINT_DECIMALS_OFFSET = 44;
+
+/**
+ * Costs eligible for reimbursement, summed over a wallet's tracked transactions
+ */
+export interface EligibleCosts {
+  lamports: number; // May be negative on the total basis when recovered rent exceeds costs
+  usd: number; // USD value of the priced transactions only
+  transactionCount: number; // Transactions contributing a non-zero amount
+  unpricedCount: number; // Contributing transactions outside the price data
+}
+
+/**
+ * Which costs to reimburse
+ */
+export interface EligibilityRule {
+  basis: ReimbursementBasis;
+  types: Set<TransactionType> | null; // null = every transaction type
+}
+
+/**
+ * SPL mint used for token reimbursements
+ */
+export interface MintInfo {
+  address: PublicKey;
+  tokenProgram: PublicKey;
+  decimals: number;
+}
+
+/**
+ * One instruction of a reimbursement proposal, ready to paste into Realms
+ */
+export interface PayloadInstruction {
+  description: string;
+  programId: string;
+  base64: string;
+}
+
+/**
+ * Eligible cost of one transaction in lamports
+ *
+ * With a type filter, only the share allocated to the eligible types (under the
+ * results' cost split rule) counts. On the reimbursable basis that share is taken
+ * of the capped fee. Transactions another account paid for are never eligible, failed
+ * transactions only when the results count them.
+ */
+export function getEligibleLamports(tx: TrackedTransaction, results: TrackingResults, rule: EligibilityRule): number {
+  if (tx.sponsored || (tx.status === TransactionStatus.FAILED && !results.reimburseFailed)) {
+    return 0;
+  }
+
+  const allocations = allocateCost(tx, results.costSplitRule)
+    .filter(allocation => !rule.types || rule.types.has(allocation.transactionType));
+
+  if (rule.basis === ReimbursementBasis.TOTAL) {
+    return allocations.reduce(
+      (sum, allocation) => sum + allocation.fee + allocation.rentPaid - allocation.rentRecovered,
+      0
+    );
+  }
+
+  if (tx.transactionFee === 0) {
+    return 0;
+  }
+  const eligibleFee = allocations.reduce((sum, allocation) => sum + allocation.fee, 0);
+  const reimbursable = getReimbursableFee(tx, results.priorityFeeCap);
+  return Math.round(reimbursable * eligibleFee / tx.transactionFee);
+}
+
+/**
+ * Sum the costs eligible for reimbursement across tracking results
+ * @param resultsList - Tracking results for one wallet (one entry per realm)
+ * @param rule - Reimbursement basis and eligible transaction types
+ */
+export function getEligibleCosts(resultsList: TrackingResults[], rule: EligibilityRule): EligibleCosts {
+  const costs: EligibleCosts = { lamports: 0, usd: 0, transactionCount: 0, unpricedCount: 0 };
+
+  for (const results of resultsList) {
+    for (const tx of results.transactions) {
+      const lamports = getEligibleLamports(tx, results, rule);
+      if (lamports === 0) {
+        continue;
+      }
+
+      costs.lamports += lamports;
+      costs.transactionCount++;
+      if (tx.usd?.solPrice != null) {
+        costs.usd += lamportsToUsd(lamports, tx.usd.solPrice);
+      } else {
+        costs.unpricedCount++;
+      }
+    }
+  }
+
+  return costs;
+}
+
+/**
+ * Look up an SPL mint's token program and decimals
+ * @throws ConfigError if the account is missing or not a mint
+ */
+export async function fetchMintInfo(connection: Connection, mint: PublicKey): Promise<MintInfo> {
+  const accountInfo = await fetchAccountInfo(connection, mint);
+  if (!accountInfo) {
+    throw new ConfigError(`Mint account not found: ${mint.toString()}`);
+  }
+
+  const owner = accountInfo.owner.toString();
+  if ((owner !== TOKEN_PROGRAM_ID && owner !== TOKEN_2022_PROGRAM_ID) || accountInfo.data.length <= MINT_DECIMALS_OFFSET) {
+    throw new ConfigError(`${mint.toString()} is not an SPL token mint`);
+  }
+
+  return {
+    address: mint,
+    tokenProgram: accountInfo.owner,
+    decimals: accountInfo.data[MINT_DECIMALS_OFFSET]
+  };
+}
+
+/**
+ * Derive the associated token account of an owner for a mint
+ * The owner may be off-curve (the native treasury is a PDA)
+ */
+export function getAssociatedTokenAddress(owner: PublicKey, mint: MintInfo): PublicKey {
+  const [address] = PublicKey.findProgramAddressSync(
+    [owner.toBuffer(), mint.tokenProgram.toBuffer(), mint.address.toBuffer()],
+    new PublicKey(ASSOCIATED_TOKEN_PROGRAM_ID)
+  );
+  return address;
+}
+
+/**
+ * Build a SOL transfer from the native treasury
+ */
+export function buildSolPayment(treasury: PublicKey, recipient: PublicKey, lamports: number): TransactionInstruction[] {
+  return [SystemProgram.transfer({ fromPubkey: treasury, toPubkey: recipient, lamports })];
+}
+
+/**
+ * Build an SPL transfer from the native treasury's associated token account
+ * The recipient's associated token account is created first if it does not exist,
+ * with the treasury paying its rent.
+ * @param amount - Amount in the mint's base units
+ */
+export function buildTokenPayment(
+  treasury: PublicKey,
+  recipient: PublicKey,
+  mint: MintInfo,
+  amount: bigint
+): TransactionInstruction[] {
+  const source = getAssociatedTokenAddress(treasury, mint);
+  const destination = getAssociatedTokenAddress(recipient, mint);
+
+  const createAccount = new TransactionInstruction({
+    programId: new PublicKey(ASSOCIATED_TOKEN_PROGRAM_ID),
+    keys: [
+      { pubkey: treasury, isSigner: true, isWritable: true },
+      { pubkey: destination, isSigner: false, isWritable: true },
+      { pubkey: recipient, isSigner: false, isWritable: false },
+      { pubkey: mint.address, isSigner: false, isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      { pubkey: mint.tokenProgram, isSigner: false, isWritable: false }
+    ],
+    data: Buffer.from([CREATE_IDEMPOTENT_INSTRUCTION])
+  });
+
+  const data = Buffer.alloc(10);
+  data.writeUInt8(TRANSFER_CHECKED_INSTRUCTION, 0);
+  data.writeBigUInt64LE(amount, 1);
+  data.writeUInt8(mint.decimals, 9);
+
+  const transfer = new TransactionInstruction({
+    programId: mint.tokenProgram,
+    keys: [
+      { pubkey: source, isSigner: false, isWritable: true },
+      { pubkey: mint.address, isSigner: false, isWritable: false },
+      { pubkey: destination, isSigner: false, isWritable: true },
+      { pubkey: treasury, isSigner: true, isWritable: false }
+    ],
+    data
+  });
+
+  return [createAccount, transfer];
+}
+
+/**
+ * Serialize an instruction as base64 for Realms' custom instruction field
+ */
+export function serializeInstructionToBase64(instruction: TransactionInstruction): string {
+  const accountsLength = Buffer.alloc(4);
+  accountsLength.writeUInt32LE(instruction.keys.length, 0);
+  const dataLength = Buffer.alloc(4);
+  dataLength.writeUInt32LE(instruction.data.length, 0);
+
+  const accounts = instruction.keys.map(key => Buffer.concat([
+    key.pubkey.toBuffer(),
+    Buffer.from([key.isSigner ? 1 : 0, key.isWritable ? 1 : 0])
+  ]));
+
+  return Buffer.concat([
+    instruction.programId.toBuffer(),
+    accountsLength,
+    ...accounts,
+    dataLength,
+    instruction.data
+  ]).toString('base64');
+}
@@ -1,5 +1,12 @@
 /**
  * Solana connection service with retry logic and optimization
+ *
+ * Requests are spread over one or more RPC endpoints, each with its own rate
+ * limit. Per-endpoint health (errors, 429s, latency) decides which endpoint
+ * serves the next attempt, and requests for history an endpoint does not keep
+ * fall back to the archival endpoints. Every HTTP response feeds the endpoint's
+ * adaptive rate limiter: 429s (and their Retry-After) slow it down, successes
+ * speed it back up.
  */
 
 import {
@@ -7,33 +14,233 @@ import {
   PublicKey,
   ConfirmedSignatureInfo,
   ParsedTransactionWithMeta,
-  GetVersionedTransactionConfig
+  GetVersionedTransactionConfig,
+  GetProgramAccountsConfig,
+  GetProgramAccountsResponse,
+  AccountInfo,
+  SolanaJSONRPCError
 } from '@solana/web3.js';
-import { RETRY_CONFIG, MAX_SIGNATURES_PER_FETCH } from '../constants';
+import { RpcEndpoint, RpcStrategy, EndpointHealth, RpcUsage } from '../types';
+import {
+  RETRY_CONFIG,
+  ENDPOINT_HEALTH_CONFIG,
+  MAX_SIGNATURES_PER_FETCH,
+  MAX_ACCOUNTS_PER_FETCH,
+  MAX_CONCURRENT_REQUESTS,
+  TRANSACTIONS_PER_BATCH_REQUEST
+} from '../constants';
 import { logProgress, logWarning, clearLine } from '../utils/logger';
-import { throttle, initRateLimiter } from '../utils/rate-limiter';
+import {
+  RateLimiter,
+  rateLimiter,
+  initRateLimiter,
+  createRateLimiter,
+  setMethodCosts,
+  getMethodCost,
+  getThrottleStats
+} from '../utils/rate-limiter';
+import { RpcError } from '../errors';
+import {
+  getCachedTransaction,
+  putCachedTransaction,
+  getCachedSignaturePage,
+  putCachedSignaturePage
+} from './cache';
+import { SignatureProgress, saveCheckpoint } from './checkpoint';
+import { throwIfInterrupted } from '../utils/interrupt';
+
+/**
+ * JSON-RPC error codes for history the node does not have
+ * (block not available, slot skipped or missing from long-term storage,
+ * transaction history disabled)
+ */
+const HISTORY_UNAVAILABLE_CODES = new Set([-32004, -32007, -32009, -32011]);
+
+/**
+ * Error messages for history the node does not have, for providers that drop the code
+ */
+const HISTORY_UNAVAILABLE_PATTERN = /long-term storage|history is not available|ledger jump|block not available/i;
+
+/**
+ * Error code for a batch request the endpoint answered without an array
+ */
+const BATCH_UNSUPPORTED_CODE = 'BATCH_UNSUPPORTED';
+
+/**
+ * An RPC endpoint with its connection, rate limiter and health
+ */
+interface PoolEndpoint {
+  endpoint: RpcEndpoint;
+  connection: Connection;
+  limiter: RateLimiter;
+  requests: number;
+  errors: number;
+  rateLimited: number;
+  historyUnavailable: number;
+  successes: number;
+  totalLatencyMs: number;
+  consecutiveFailures: number;
+  cooldownUntil: number; // Epoch ms before which the endpoint is not picked if another is available
+  errorRate: number; // Moving average of failed requests (0-1)
+  latencyByMethod: Map<string, number>; // Moving average latency of single requests, per RPC method
+  healthUpdatedAt: number; // Epoch ms of the last request counted in errorRate
+  batchSize: number; // Transactions per batch request: halved on a 413, 1 once the endpoint rejects batches
+}
+
+let pool: PoolEndpoint[] = [];
+let strategy = RpcStrategy.FAILOVER;
+let roundRobinIndex = 0;
+
+/**
+ * Create a pool entry for an endpoint
+ */
+function createPoolEndpoint(endpoint: RpcEndpoint, connection: Connection, limiter: RateLimiter): PoolEndpoint {
+  return {
+    endpoint,
+    connection,
+    limiter,
+    requests: 0,
+    errors: 0,
+    rateLimited: 0,
+    historyUnavailable: 0,
+    successes: 0,
+    totalLatencyMs: 0,
+    consecutiveFailures: 0,
+    cooldownUntil: 0,
+    errorRate: 0,
+    latencyByMethod: new Map(),
+    healthUpdatedAt: 0,
+    batchSize: TRANSACTIONS_PER_BATCH_REQUEST
+  };
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date)
+ * @returns Delay in milliseconds, or null if missing or invalid
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) {
+    return null;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Check whether a request body is a JSON-RPC batch (an array of calls)
+ */
+function isBatchBody(body: unknown): boolean {
+  return typeof body === 'string' && body.trimStart().startsWith('[');
+}
 
-let connection: Connection | null = null;
+/**
+ * Wrap fetch to report an endpoint's responses to its rate limiter
+ * Requests wait out a pause first, so the connection's own 429 retries honour
+ * Retry-After too. A batch request answered with anything but an array (a single
+ * error object from an endpoint without batch support) fails with
+ * BATCH_UNSUPPORTED_CODE.
+ */
+function createRateAwareFetch(limiter: RateLimiter): typeof fetch {
+  return async (input, init) => {
+    await limiter.waitForPause();
+    const response = await fetch(input, init);
+    if (response.status === 429) {
+      limiter.onRateLimited(parseRetryAfter(response.headers.get('retry-after')));
+    } else if (response.ok) {
+      limiter.onSuccess();
+      if (isBatchBody(init?.body)) {
+        const text = await response.clone().text();
+        if (!text.trimStart().startsWith('[')) {
+          throw Object.assign(
+            new Error(`Batch request answered without an array: ${text.slice(0, 200)}`),
+            { code: BATCH_UNSUPPORTED_CODE }
+          );
+        }
+      }
+    }
+    return response;
+  };
+}
 
 /**
- * Initialize and get Solana connection
- * @param rpcUrl - The RPC endpoint URL
- * @param rps - Optional requests per second limit (initializes rate limiter if provided)
+ * Initialize the RPC endpoints and get the primary connection
+ *
+ * The first endpoint is the primary: its connection is returned for direct
+ * requests and it is throttled by the global rate limiter. Every other endpoint
+ * gets its own limiter. Requests made through withRetry may be served by any
+ * endpoint, depending on the strategy and the endpoints' health.
+ *
+ * @param endpoints - Prioritized RPC endpoints
+ * @param rpcStrategy - How requests are spread over the endpoints
+ * @param methodCosts - Rate limiter token cost overrides per RPC method
  */
-export function getConnection(rpcUrl: string, rps?: number): Connection {
-  if (!connection) {
-    connection = new Connection(rpcUrl, {
-      commitment: 'confirmed',
-      confirmTransactionInitialTimeout: 60000
+export function getConnection(
+  endpoints: RpcEndpoint[],
+  rpcStrategy: RpcStrategy = RpcStrategy.FAILOVER,
+  methodCosts: Record<string, number> = {}
+): Connection {
+  if (pool.length === 0) {
+    // With several endpoints a 429 fails over instead of being retried in place
+    const disableRetryOnRateLimit = endpoints.length > 1;
+    pool = endpoints.map((endpoint, index) => {
+      let limiter = rateLimiter;
+      if (index === 0) {
+        initRateLimiter(endpoint.rps);
+      } else {
+        limiter = createRateLimiter(endpoint.rps);
+      }
+      const connection = new Connection(endpoint.url, {
+        commitment: 'confirmed',
+        confirmTransactionInitialTimeout: 60000,
+        disableRetryOnRateLimit,
+        fetch: createRateAwareFetch(limiter)
+      });
+      return createPoolEndpoint(endpoint, connection, limiter);
     });
+    strategy = rpcStrategy;
+    setMethodCosts(methodCosts);
   }
-  
-  // Initialize rate limiter if rps is provided
-  if (rps !== undefined) {
-    initRateLimiter(rps);
+
+  return pool[0].connection;
+}
+
+/**
+ * Describe an RPC endpoint by its host, leaving out API keys in the path or query
+ */
+export function describeRpcEndpoint(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return 'invalid URL';
   }
-  
-  return connection;
+}
+
+/**
+ * RPC usage so far: time spent throttled and request statistics of every
+ * endpoint, in priority order
+ */
+export function getRpcUsage(): RpcUsage {
+  return { ...getThrottleStats(), endpoints: getEndpointHealth() };
+}
+
+/**
+ * Request statistics of every RPC endpoint, in priority order
+ */
+function getEndpointHealth(): EndpointHealth[] {
+  return pool.map(entry => ({
+    host: describeRpcEndpoint(entry.endpoint.url),
+    archival: entry.endpoint.archival,
+    requests: entry.requests,
+    errors: entry.errors,
+    rateLimited: entry.rateLimited,
+    historyUnavailable: entry.historyUnavailable,
+    averageLatencyMs: entry.successes > 0 ? Math.round(entry.totalLatencyMs / entry.successes) : null,
+    currentRps: entry.limiter.getCurrentRps()
+  }));
 }
 
 /**
@@ -52,59 +259,272 @@ function calculateBackoff(attempt: number): number {
 }
 
 /**
- * Retry wrapper for RPC calls with rate limiting
+ * Check whether an RPC error is a 429 response
+ */
+function isRateLimitError(error: Error): boolean {
+  return /\b429\b|too many requests/i.test(error.message);
+}
+
+/**
+ * Check whether an RPC error reports history the endpoint does not have
+ */
+function isHistoryUnavailableError(error: Error): boolean {
+  const code = (error as { code?: unknown }).code;
+  return (typeof code === 'number' && HISTORY_UNAVAILABLE_CODES.has(code))
+    || HISTORY_UNAVAILABLE_PATTERN.test(error.message);
+}
+
+/**
+ * When an endpoint can take requests again, after a failure or a 429 pause
+ */
+function getAvailableAt(entry: PoolEndpoint, now: number): number {
+  return Math.max(entry.cooldownUntil, now + entry.limiter.getPauseRemaining());
+}
+
+/**
+ * Update an endpoint's moving error rate, and its latency for the method on success
+ * @param latencyMs - Latency of a successful single request, null otherwise
+ */
+function recordHealth(entry: PoolEndpoint, failed: boolean, method: string, latencyMs: number | null): void {
+  const { smoothing } = ENDPOINT_HEALTH_CONFIG;
+  entry.errorRate = entry.errorRate * (1 - smoothing) + (failed ? smoothing : 0);
+  entry.healthUpdatedAt = Date.now();
+
+  if (latencyMs !== null) {
+    const previous = entry.latencyByMethod.get(method);
+    entry.latencyByMethod.set(
+      method,
+      previous === undefined ? latencyMs : previous * (1 - smoothing) + latencyMs * smoothing
+    );
+  }
+}
+
+/**
+ * Check whether an endpoint's health reflects recent requests
+ */
+function hasRecentHealth(entry: PoolEndpoint, now: number): boolean {
+  return now - entry.healthUpdatedAt < ENDPOINT_HEALTH_CONFIG.staleMs;
+}
+
+/**
+ * Check whether an endpoint is healthy enough to take a request for a method:
+ * a moving error rate under the limit and a latency close to the fastest
+ * candidate's. Endpoints without recent requests or latency samples count as healthy.
+ */
+function isHealthy(entry: PoolEndpoint, method: string, fastestLatency: number | null, now: number): boolean {
+  if (!hasRecentHealth(entry, now)) {
+    return true;
+  }
+  if (entry.errorRate > ENDPOINT_HEALTH_CONFIG.maxErrorRate) {
+    return false;
+  }
+  const latency = entry.latencyByMethod.get(method);
+  return latency === undefined || fastestLatency === null
+    || latency <= fastestLatency * ENDPOINT_HEALTH_CONFIG.slowFactor;
+}
+
+/**
+ * Pick the endpoint for the next attempt of a request
+ *
+ * Archival endpoints only serve requests another endpoint had no history for
+ * (or every request, when no other endpoint is configured). Endpoints cooling
+ * down after a failure or paused after a 429 are passed over while another
+ * candidate is available. Among the available ones, endpoints with a high
+ * moving error rate or a latency well above the fastest endpoint's are only
+ * picked when no healthy endpoint is available, and then the one failing least.
+ * Failing all that, the endpoint available first is picked.
+ *
+ * @param candidates - Endpoints to choose from
+ * @param method - RPC method of the request, for latency comparison
+ * @param needsHistory - An endpoint reported the history unavailable: prefer archival endpoints
+ * @param exclude - Endpoints that reported the history unavailable for this request
+ * @returns The endpoint, or null if every endpoint lacks the history
+ */
+function selectEndpoint(
+  candidates: PoolEndpoint[],
+  method: string,
+  needsHistory: boolean,
+  exclude: Set<PoolEndpoint>
+): PoolEndpoint | null {
+  const remaining = candidates.filter(entry => !exclude.has(entry));
+  const archival = remaining.filter(entry => entry.endpoint.archival);
+  const regular = remaining.filter(entry => !entry.endpoint.archival);
+
+  const preferred = needsHistory && archival.length > 0
+    ? archival
+    : (regular.length > 0 ? regular : archival);
+  if (preferred.length === 0) {
+    return null;
+  }
+
+  // Round-robin rotates the starting point, failover always starts at the highest priority
+  let ordered = preferred;
+  if (strategy === RpcStrategy.ROUND_ROBIN) {
+    const start = roundRobinIndex++ % preferred.length;
+    ordered = [...preferred.slice(start), ...preferred.slice(0, start)];
+  }
+
+  const now = Date.now();
+  const available = ordered.filter(entry => getAvailableAt(entry, now) <= now);
+  if (available.length > 0) {
+    const latencies = available
+      .filter(entry => hasRecentHealth(entry, now))
+      .map(entry => entry.latencyByMethod.get(method))
+      .filter((latency): latency is number => latency !== undefined);
+    const fastestLatency = latencies.length > 0 ? Math.min(...latencies) : null;
+
+    const healthy = available.find(entry => isHealthy(entry, method, fastestLatency, now));
+    if (healthy) {
+      return healthy;
+    }
+    return available.reduce((best, entry) => entry.errorRate < best.errorRate ? entry : best);
+  }
+  return ordered.reduce((best, entry) => getAvailableAt(entry, now) < getAvailableAt(best, now) ? entry : best);
+}
+
+/**
+ * Retry wrapper for RPC calls with rate limiting and endpoint failover
+ *
+ * Each attempt goes to the endpoint picked by selectEndpoint and waits for that
+ * endpoint's rate limiter, charged the method's token cost. A failed endpoint
+ * cools down with exponential backoff; a rate limited one is paused by its limiter
+ * for Retry-After (or a backoff when not sent). Either way the next attempt moves
+ * to another endpoint when one is available. An endpoint reporting the history
+ * unavailable is not retried for the request, which moves on to an archival
+ * endpoint without using up a retry.
+ *
+ * @param conn - Connection used when no endpoints were initialized
+ * @param method - RPC method the operation calls, for its token cost
+ * @param operation - The request, run against the picked endpoint's connection
+ * @param operationName - Name for log and error messages (defaults to the method)
+ * @param requestCount - Calls of the method the operation makes (a JSON-RPC batch makes several)
  */
 async function withRetry<T>(
-  operation: () => Promise<T>,
-  operationName: string
+  conn: Connection,
+  method: string,
+  operation: (connection: Connection, endpoint: PoolEndpoint) => Promise<T>,
+  operationName: string = method,
+  requestCount: number | ((endpoint: PoolEndpoint) => number) = 1
 ): Promise<T> {
+  const candidates = pool.length > 0
+    ? pool
+    : [createPoolEndpoint({ url: conn.rpcEndpoint, rps: 0, archival: false }, conn, rateLimiter)];
+  const multiEndpoint = candidates.length > 1;
+  const missingHistory = new Set<PoolEndpoint>();
   let lastError: Error | null = null;
+  let attempt = 0;
+
+  while (attempt <= RETRY_CONFIG.maxRetries) {
+    const entry = selectEndpoint(candidates, method, missingHistory.size > 0, missingHistory);
+    if (!entry) {
+      throw new RpcError(`${operationName} failed: history unavailable on every RPC endpoint: ${lastError?.message}`);
+    }
+
+    const cooldown = entry.cooldownUntil - Date.now();
+    if (cooldown > 0) {
+      await sleep(cooldown);
+    }
+
+    // Throttle before each RPC request attempt
+    const count = typeof requestCount === 'function' ? requestCount(entry) : requestCount;
+    await entry.limiter.throttle(getMethodCost(method) * count);
+    entry.requests++;
+    const started = Date.now();
 
-  for (let attempt = 0; attempt <= RETRY_CONFIG.maxRetries; attempt++) {
     try {
-      // Throttle before each RPC request attempt
-      await throttle();
-      return await operation();
+      const result = await operation(entry.connection, entry);
+      const latency = Date.now() - started;
+      entry.successes++;
+      entry.totalLatencyMs += latency;
+      recordHealth(entry, false, method, count === 1 ? latency : null);
+      entry.consecutiveFailures = 0;
+      entry.cooldownUntil = 0;
+      return result;
     } catch (error) {
       lastError = error as Error;
-      
+      const host = describeRpcEndpoint(entry.endpoint.url);
+
+      if (isHistoryUnavailableError(lastError)) {
+        entry.historyUnavailable++;
+        missingHistory.add(entry);
+        logWarning(`${operationName}: history unavailable on ${host}, trying another endpoint...`);
+        continue;
+      }
+
+      entry.errors++;
+      recordHealth(entry, true, method, null);
+      let delay: number;
+      if (isRateLimitError(lastError)) {
+        // The limiter was paused when the 429 response came in
+        entry.rateLimited++;
+        delay = entry.limiter.getPauseRemaining();
+      } else {
+        delay = calculateBackoff(entry.consecutiveFailures);
+        entry.consecutiveFailures++;
+        entry.cooldownUntil = Date.now() + delay;
+      }
+
       if (attempt < RETRY_CONFIG.maxRetries) {
-        const delay = calculateBackoff(attempt);
-        logWarning(`${operationName} failed, retrying in ${delay}ms... (attempt ${attempt + 1}/${RETRY_CONFIG.maxRetries})`);
-        await sleep(delay);
+        const message = multiEndpoint
+          ? `${operationName} failed on ${host}, retrying`
+          : `${operationName} failed, retrying in ${delay}ms`;
+        logWarning(`${message}... (attempt ${attempt + 1}/${RETRY_CONFIG.maxRetries})`);
       }
+      attempt++;
     }
   }
 
-  throw new Error(`${operationName} failed after ${RETRY_CONFIG.maxRetries} retries: ${lastError?.message}`);
+  throw new RpcError(`${operationName} failed after ${RETRY_CONFIG.maxRetries} retries: ${lastError?.message}`);
+}
+
+/**
+ * Fetch the current block height, failing over between endpoints
+ */
+export async function fetchBlockHeight(conn: Connection): Promise<number> {
+  return withRetry(conn, 'getBlockHeight', connection => connection.getBlockHeight());
 }
 
 /**
  * Fetch signatures for an address with pagination
  * Returns signatures in reverse chronological order (newest first)
+ * Pages behind a cursor are served from the on-disk cache when available
+ * @param progress - Checkpointed paging state; fetching resumes from its cursor
  */
 export async function fetchSignaturesForAddress(
   conn: Connection,
   address: PublicKey,
   startTimestamp: number,
-  endTimestamp: number
+  endTimestamp: number,
+  progress?: SignatureProgress
 ): Promise<ConfirmedSignatureInfo[]> {
-  const allSignatures: ConfirmedSignatureInfo[] = [];
-  let beforeSignature: string | undefined = undefined;
+  const state: SignatureProgress = progress ?? { before: null, signatures: [], done: false };
+  if (state.done) {
+    return state.signatures;
+  }
+
+  const allSignatures = state.signatures;
+  let beforeSignature: string | undefined = state.before ?? undefined;
   let reachedStartDate = false;
   let fetchCount = 0;
 
   while (!reachedStartDate) {
+    throwIfInterrupted();
     fetchCount++;
     logProgress(`Fetching signatures batch ${fetchCount}...`);
 
-    const signatures = await withRetry(
-      () => conn.getSignaturesForAddress(address, {
-        before: beforeSignature,
-        limit: MAX_SIGNATURES_PER_FETCH
-      }),
-      'getSignaturesForAddress'
-    );
+    const before: string | undefined = beforeSignature;
+    let signatures = getCachedSignaturePage(address.toString(), before, MAX_SIGNATURES_PER_FETCH);
+    if (!signatures) {
+      signatures = await withRetry(
+        conn,
+        'getSignaturesForAddress',
+        connection => connection.getSignaturesForAddress(address, {
+          before,
+          limit: MAX_SIGNATURES_PER_FETCH
+        })
+      );
+      putCachedSignaturePage(address.toString(), before, MAX_SIGNATURES_PER_FETCH, signatures);
+    }
 
     if (signatures.length === 0) {
       break;
@@ -129,14 +549,14 @@ export async function fetchSignaturesForAddress(
         break;
       }
 
-      // Include transaction if within date range and no error
-      if (!sig.err) {
-        allSignatures.push(sig);
-      }
+      // Include transaction if within date range (failed transactions still charged a fee)
+      allSignatures.push(sig);
     }
 
     // Prepare for next iteration
     beforeSignature = signatures[signatures.length - 1].signature;
+    state.before = beforeSignature;
+    saveCheckpoint();
 
     // Check if we've exhausted all signatures
     if (signatures.length < MAX_SIGNATURES_PER_FETCH) {
@@ -144,56 +564,365 @@ export async function fetchSignaturesForAddress(
     }
   }
 
+  state.done = true;
+  saveCheckpoint();
+
   clearLine();
   return allSignatures;
 }
 
+/**
+ * Config for transaction requests
+ */
+const TRANSACTION_CONFIG: GetVersionedTransactionConfig = {
+  commitment: 'confirmed',
+  maxSupportedTransactionVersion: 0
+};
+
+/**
+ * A fetched transaction (null if the RPC returned none)
+ */
+export interface FetchedTransaction {
+  signature: string;
+  transaction: ParsedTransactionWithMeta | null;
+}
+
 /**
  * Fetch full transaction details for a signature
+ * Served from the on-disk cache when available
  */
 export async function fetchTransaction(
   conn: Connection,
   signature: string
 ): Promise<ParsedTransactionWithMeta | null> {
-  const config: GetVersionedTransactionConfig = {
-    commitment: 'confirmed',
-    maxSupportedTransactionVersion: 0
-  };
+  const cached = getCachedTransaction(signature);
+  if (cached) {
+    return cached;
+  }
 
-  return withRetry(
-    () => conn.getParsedTransaction(signature, config),
+  const tx = await withRetry(
+    conn,
+    'getTransaction',
+    connection => connection.getParsedTransaction(signature, TRANSACTION_CONFIG),
     `getTransaction(${signature.slice(0, 8)}...)`
   );
+  putCachedTransaction(signature, tx);
+
+  return tx;
+}
+
+/**
+ * Check whether an error means the endpoint does not accept JSON-RPC batches
+ * Providers answer with a single error object instead of an array, an Invalid
+ * Request (-32600) error or a message saying so.
+ */
+function isBatchUnsupportedError(error: Error): boolean {
+  const code = (error as { code?: unknown }).code;
+  return code === -32600
+    || code === BATCH_UNSUPPORTED_CODE
+    || /batch (requests? )?(are |is )?(not supported|not allowed|disabled)/i.test(error.message);
+}
+
+/**
+ * Check whether an error is an HTTP 413 (request or response too large)
+ */
+function isPayloadTooLargeError(error: Error): boolean {
+  return /^413\b/.test(error.message);
+}
+
+/**
+ * Outcome of one batch request for the first signatures of a queue
+ */
+type BatchOutcome =
+  | { kind: 'fetched'; signatures: string[]; transactions: (ParsedTransactionWithMeta | null)[] }
+  | { kind: 'item_failed'; signatures: string[] } // A signature's own error failed the batch
+  | { kind: 'resized' }; // The endpoint rejected the batch, or found it too large
+
+/**
+ * Fetch the first signatures of a queue in one request, sized for the endpoint serving it
+ * A transport error or 429 is retried like any request. An endpoint that rejects
+ * batches or answers 413 gets a smaller batch size, and the caller tries again.
+ */
+async function fetchTransactionBatchRequest(conn: Connection, pending: string[]): Promise<BatchOutcome> {
+  return withRetry(
+    conn,
+    'getTransaction',
+    async (connection, endpoint): Promise<BatchOutcome> => {
+      const signatures = pending.slice(0, endpoint.batchSize);
+      if (signatures.length === 1) {
+        const tx = await connection.getParsedTransaction(signatures[0], TRANSACTION_CONFIG);
+        return { kind: 'fetched', signatures, transactions: [tx] };
+      }
+
+      try {
+        const transactions = await connection.getParsedTransactions(signatures, TRANSACTION_CONFIG);
+        return { kind: 'fetched', signatures, transactions };
+      } catch (error) {
+        const host = describeRpcEndpoint(endpoint.endpoint.url);
+        // Concurrent batches may hit the same limit; only the first one resizes
+        if (isBatchUnsupportedError(error as Error)) {
+          if (endpoint.batchSize > 1) {
+            endpoint.batchSize = 1;
+            logWarning(`${host} does not support batch requests; fetching transactions one at a time there`);
+          }
+          return { kind: 'resized' };
+        }
+        if (isPayloadTooLargeError(error as Error)) {
+          const size = Math.max(1, Math.floor(signatures.length / 2));
+          if (size < endpoint.batchSize) {
+            endpoint.batchSize = size;
+            logWarning(`${host} rejected a batch as too large; using batches of ${size} there`);
+          }
+          return { kind: 'resized' };
+        }
+        // An error inside the batch response belongs to one signature; fetched
+        // one by one, it fails alone and the rest are not retried
+        if (error instanceof SolanaJSONRPCError && !isRateLimitError(error)) {
+          return { kind: 'item_failed', signatures };
+        }
+        throw error;
+      }
+    },
+    `getTransactions(${Math.min(pending.length, TRANSACTIONS_PER_BATCH_REQUEST)} signatures)`,
+    endpoint => Math.min(pending.length, endpoint.batchSize)
+  );
+}
+
+/**
+ * Fetch transactions in batch requests sized for each endpoint
+ * @returns Transactions by signature
+ */
+async function fetchUncachedTransactions(
+  conn: Connection,
+  signatures: string[]
+): Promise<Map<string, ParsedTransactionWithMeta | null>> {
+  const results = new Map<string, ParsedTransactionWithMeta | null>();
+  const pending = [...signatures];
+
+  while (pending.length > 0) {
+    throwIfInterrupted();
+    const outcome = await fetchTransactionBatchRequest(conn, pending);
+    if (outcome.kind === 'resized') {
+      continue;
+    }
+    pending.splice(0, outcome.signatures.length);
+
+    if (outcome.kind === 'item_failed') {
+      logWarning(`Batch of ${outcome.signatures.length} transactions failed, fetching them one at a time`);
+      for (const signature of outcome.signatures) {
+        results.set(signature, await fetchTransaction(conn, signature));
+      }
+      continue;
+    }
+
+    for (const [index, signature] of outcome.signatures.entries()) {
+      putCachedTransaction(signature, outcome.transactions[index]);
+      results.set(signature, outcome.transactions[index]);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Fetch a group of transactions: cached ones from disk, the rest in batch
+ * requests (or one request per signature when batching is off or fails)
+ */
+async function fetchTransactionGroup(conn: Connection, signatures: string[]): Promise<FetchedTransaction[]> {
+  const results = new Map<string, ParsedTransactionWithMeta | null>();
+  const uncached: string[] = [];
+
+  for (const signature of signatures) {
+    const cached = getCachedTransaction(signature);
+    if (cached) {
+      results.set(signature, cached);
+    } else {
+      uncached.push(signature);
+    }
+  }
+
+  for (const [signature, tx] of await fetchUncachedTransactions(conn, uncached)) {
+    results.set(signature, tx);
+  }
+
+  return signatures.map(signature => ({ signature, transaction: results.get(signature) ?? null }));
 }
 
 /**
- * Fetch multiple transactions with concurrency limit
+ * Stream transactions from a pool of workers
+ *
+ * Workers take groups of TRANSACTIONS_PER_BATCH_REQUEST signatures from a shared
+ * queue and fetch each group in JSON-RPC batches sized for the endpoint serving
+ * them. Groups are yielded as soon as they arrive, in completion order, so
+ * callers can parse while the workers keep fetching. Workers pause while too many groups are waiting to be consumed.
+ * Fetching stops when the caller stops iterating; a fetch failure is thrown to
+ * the caller.
+ *
+ * @param concurrency - Number of workers (concurrent requests)
+ */
+export async function* streamTransactions(
+  conn: Connection,
+  signatures: string[],
+  concurrency: number = MAX_CONCURRENT_REQUESTS
+): AsyncGenerator<FetchedTransaction[]> {
+  const queue: string[][] = [];
+  for (let i = 0; i < signatures.length; i += TRANSACTIONS_PER_BATCH_REQUEST) {
+    queue.push(signatures.slice(i, i + TRANSACTIONS_PER_BATCH_REQUEST));
+  }
+
+  const ready: FetchedTransaction[][] = [];
+  const maxReady = concurrency * 2;
+  let failure: Error | null = null;
+  let stopped = false;
+  let activeWorkers = 0;
+  let wakeConsumer: (() => void) | null = null;
+  let spaceWaiters: (() => void)[] = [];
+
+  const notifyConsumer = () => {
+    wakeConsumer?.();
+    wakeConsumer = null;
+  };
+  const notifyWorkers = () => {
+    const waiters = spaceWaiters;
+    spaceWaiters = [];
+    waiters.forEach(resolve => resolve());
+  };
+
+  const worker = async () => {
+    try {
+      while (!stopped && !failure) {
+        while (ready.length >= maxReady && !stopped) {
+          await new Promise<void>(resolve => spaceWaiters.push(resolve));
+        }
+        const group = queue.shift();
+        if (!group || stopped) {
+          break;
+        }
+        throwIfInterrupted();
+        ready.push(await fetchTransactionGroup(conn, group));
+        notifyConsumer();
+      }
+    } catch (error) {
+      failure = failure ?? error as Error;
+    } finally {
+      activeWorkers--;
+      notifyConsumer();
+    }
+  };
+
+  const workerCount = Math.min(concurrency, queue.length);
+  activeWorkers = workerCount;
+  for (let i = 0; i < workerCount; i++) {
+    void worker();
+  }
+
+  try {
+    for (;;) {
+      const group = ready.shift();
+      if (group) {
+        notifyWorkers();
+        yield group;
+        continue;
+      }
+      if (failure) {
+        throw failure;
+      }
+      if (activeWorkers === 0) {
+        return;
+      }
+      await new Promise<void>(resolve => {
+        wakeConsumer = resolve;
+      });
+    }
+  } finally {
+    stopped = true;
+    notifyWorkers();
+  }
+}
+
+/**
+ * Fetch multiple transactions with a worker pool and JSON-RPC batching
+ * @returns Transactions by signature, in the order of the signatures given
  */
 export async function fetchTransactionsBatch(
   conn: Connection,
   signatures: string[],
-  concurrencyLimit: number = 10
+  concurrencyLimit: number = MAX_CONCURRENT_REQUESTS
 ): Promise<Map<string, ParsedTransactionWithMeta | null>> {
-  const results = new Map<string, ParsedTransactionWithMeta | null>();
-  
-  for (let i = 0; i < signatures.length; i += concurrencyLimit) {
-    const batch = signatures.slice(i, i + concurrencyLimit);
-    logProgress(`Fetching transactions ${i + 1}-${Math.min(i + concurrencyLimit, signatures.length)} of ${signatures.length}...`);
-    
-    const batchResults = await Promise.all(
-      batch.map(async (sig) => {
-        const tx = await fetchTransaction(conn, sig);
-        return { signature: sig, transaction: tx };
-      })
-    );
+  const results = new Map<string, ParsedTransactionWithMeta | null>(
+    signatures.map(signature => [signature, null])
+  );
+  let fetched = 0;
 
-    for (const result of batchResults) {
-      results.set(result.signature, result.transaction);
+  for await (const group of streamTransactions(conn, signatures, concurrencyLimit)) {
+    for (const { signature, transaction } of group) {
+      results.set(signature, transaction);
     }
-    // Rate limiter handles timing between requests, no additional delay needed
+    fetched += group.length;
+    logProgress(`Fetched ${fetched} of ${signatures.length} transactions...`);
   }
 
   clearLine();
   return results;
 }
 
+/**
+ * Fetch account info for one address, failing over between endpoints
+ * @returns The account, or null if it does not exist
+ */
+export async function fetchAccountInfo(conn: Connection, address: PublicKey): Promise<AccountInfo<Buffer> | null> {
+  return withRetry(conn, 'getAccountInfo', connection => connection.getAccountInfo(address));
+}
+
+/**
+ * Fetch the accounts of a program matching the filters, failing over between endpoints
+ */
+export async function fetchProgramAccounts(
+  conn: Connection,
+  programId: PublicKey,
+  config: Pick<GetProgramAccountsConfig, 'filters' | 'dataSlice'>
+): Promise<GetProgramAccountsResponse> {
+  return withRetry(conn, 'getProgramAccounts', connection => connection.getProgramAccounts(programId, config));
+}
+
+/**
+ * Fetch the most recent signatures for an address (a single page, no cache)
+ * @param limit - Number of signatures, newest first
+ */
+export async function fetchRecentSignatures(
+  conn: Connection,
+  address: PublicKey,
+  limit: number
+): Promise<ConfirmedSignatureInfo[]> {
+  return withRetry(
+    conn,
+    'getSignaturesForAddress',
+    connection => connection.getSignaturesForAddress(address, { limit })
+  );
+}
+
+/**
+ * Fetch account info for many addresses, chunked to the RPC limit
+ * Missing accounts are returned as null
+ */
+export async function fetchMultipleAccounts(
+  conn: Connection,
+  addresses: PublicKey[]
+): Promise<Map<string, AccountInfo<Buffer> | null>> {
+  const results = new Map<string, AccountInfo<Buffer> | null>();
+
+  for (let i = 0; i < addresses.length; i += MAX_ACCOUNTS_PER_FETCH) {
+    const chunk = addresses.slice(i, i + MAX_ACCOUNTS_PER_FETCH);
+    const accounts = await withRetry(
+      conn,
+      'getMultipleAccounts',
+      connection => connection.getMultipleAccountsInfo(chunk)
+    );
+
+    chunk.forEach((address, index) => {
+      results.set(address.toString(), accounts[index] ?? null);
+    });
+  }
+
+  return results;
+}
@@ -0,0 +1,648 @@
+/**
+ * Per-wallet tracking pipeline
+ *
+ * Fetches signatures from every source for one wallet, fetches transaction details
+ * once and assigns each transaction to the configured realm it belongs to. The
+ * connection, rate limiter, realm data and realm membership cache are shared across
+ * wallets in a batch run.
+ */
+
+import {
+  Connection,
+  PublicKey,
+  ConfirmedSignatureInfo,
+  ParsedTransactionWithMeta
+} from '@solana/web3.js';
+import {
+  TrackedTransaction,
+  RejectedTransaction,
+  WalletTarget,
+  RealmResults,
+  ProposalMetadata,
+  TransactionStatus,
+  AttributionMode
+} from '../types';
+import { fetchSignaturesForAddress, streamTransactions, FetchedTransaction } from './solana';
+import { throttle } from '../utils/rate-limiter';
+import {
+  RealmData,
+  GoverningTokenOwnerRecord,
+  fetchGoverningTokenOwnerRecords,
+  fetchDelegatedTokenOwnerRecords,
+  fetchVoteRecordsForTokenOwnerRecord,
+  fetchProposalMetadata,
+  fetchVoteRecords
+} from './governance';
+import {
+  parseTransaction,
+  getGovernanceInstructionAccounts,
+  ParseContext
+} from './transaction-parser';
+import { RealmMembership, resolveAccountRealms } from './realm-membership';
+import {
+  TransactionOutcome,
+  WalletCheckpoint,
+  getWalletCheckpoint,
+  getSignatureProgress,
+  saveCheckpoint
+} from './checkpoint';
+import { calculateResults, ResultsOptions } from '../utils/csv-generator';
+import { throwIfInterrupted } from '../utils/interrupt';
+import { InterruptedError } from '../errors';
+import { MAX_CONCURRENT_REQUESTS, TRANSACTION_CHECKPOINT_INTERVAL } from '../constants';
+import {
+  logInfo,
+  logSuccess,
+  logWarning,
+  logSeparator,
+  logProgress,
+  clearLine
+} from '../utils/logger';
+
+/**
+ * Realm state shared by every wallet tracked in a run
+ */
+export interface RealmContext {
+  realmId: string;
+  realmData: RealmData;
+}
+
+/**
+ * Results for one wallet across every configured realm
+ */
+export interface WalletTracking {
+  realmResults: RealmResults[];
+  /** Governance transactions of the wallet that belong to none of the configured realms */
+  rejected: RejectedTransaction[];
+  /** false when the run was interrupted before every transaction was processed */
+  complete: boolean;
+}
+
+/**
+ * Date range for a tracking run
+ */
+export interface TrackingWindow {
+  startTimestamp: number;
+  endTimestamp: number;
+}
+
+/**
+ * Merge and deduplicate signature arrays
+ */
+function mergeSignatures(
+  ...signatureArrays: ConfirmedSignatureInfo[][]
+): ConfirmedSignatureInfo[] {
+  const signatureMap = new Map<string, ConfirmedSignatureInfo>();
+
+  for (const signatures of signatureArrays) {
+    for (const sig of signatures) {
+      if (!signatureMap.has(sig.signature)) {
+        signatureMap.set(sig.signature, sig);
+      }
+    }
+  }
+
+  // Sort by blockTime descending (newest first)
+  return Array.from(signatureMap.values()).sort((a, b) => {
+    const timeA = a.blockTime || 0;
+    const timeB = b.blockTime || 0;
+    return timeB - timeA;
+  });
+}
+
+/**
+ * Signatures gathered for one wallet from every source
+ */
+export interface SignatureCollection {
+  signatures: ConfirmedSignatureInfo[];
+  /** The wallet's own and delegated TokenOwnerRecords per realm */
+  tokenOwnerRecords: Map<string, GoverningTokenOwnerRecord[]>;
+  sourceCounts: {
+    tokenOwnerRecords: number;
+    voteRecords: number;
+    wallet: number;
+  };
+}
+
+/**
+ * Derive the wallet's TokenOwnerRecord PDAs in each realm (community and council)
+ * and find the records other members delegated to it
+ */
+async function fetchWalletTokenOwnerRecords(
+  connection: Connection,
+  realms: RealmContext[],
+  wallet: WalletTarget
+): Promise<Map<string, GoverningTokenOwnerRecord[]>> {
+  const realmRecords = new Map<string, GoverningTokenOwnerRecord[]>();
+
+  for (const { realmId, realmData } of realms) {
+    const tokenOwnerRecords = await fetchGoverningTokenOwnerRecords(
+      connection,
+      realmId,
+      realmData,
+      wallet.address
+    );
+    const delegatedRecords = await fetchDelegatedTokenOwnerRecords(
+      connection,
+      realmId,
+      realmData,
+      wallet.address
+    );
+    realmRecords.set(realmId, [...tokenOwnerRecords, ...delegatedRecords]);
+
+    if (realms.length > 1) {
+      logInfo(`Realm ${realmId}:`);
+    }
+    for (const record of tokenOwnerRecords) {
+      logInfo(`${record.kind} TokenOwnerRecord PDA: ${record.address.toString()}`);
+      if (!record.exists) {
+        logWarning(`${record.kind} TokenOwnerRecord does not exist - wallet may not have deposited ${record.kind.toLowerCase()} tokens`);
+      }
+    }
+    for (const record of delegatedRecords) {
+      logInfo(`${record.kind} TokenOwnerRecord delegated by ${record.delegator}: ${record.address.toString()}`);
+    }
+  }
+  logSeparator();
+
+  return realmRecords;
+}
+
+/**
+ * Gather and deduplicate transaction signatures for one wallet
+ *
+ * The wallet's own signature history is fetched once and shared by every realm;
+ * TokenOwnerRecord and VoteRecord sources are queried per realm. Paging progress
+ * is recorded in the run checkpoint, so an interrupted collection resumes per source.
+ *
+ * @param connection - Shared Solana connection
+ * @param realms - Configured realms
+ * @param wallet - Wallet to track
+ * @param window - Date range to track
+ */
+export async function collectSignatures(
+  connection: Connection,
+  realms: RealmContext[],
+  wallet: WalletTarget,
+  window: TrackingWindow
+): Promise<SignatureCollection> {
+  const { startTimestamp, endTimestamp } = window;
+  const realmRecords = await fetchWalletTokenOwnerRecords(connection, realms, wallet);
+
+  // Fetch transaction signatures from multiple sources
+  // - TokenOwnerRecords: captures votes and proposals (via account signatures), own and delegated
+  // - VoteRecord accounts: direct query of vote records (more comprehensive)
+  // - Wallet: captures ALL governance interactions (comments, deposits, executes, admin ops)
+  logInfo('Fetching transaction signatures...');
+
+  const walletPubkey = new PublicKey(wallet.address);
+  const torSignatures: ConfirmedSignatureInfo[] = [];
+  const voteRecordSignatures: ConfirmedSignatureInfo[] = [];
+
+  for (const { realmId, realmData } of realms) {
+    const sources = await fetchRecordSignatures(
+      connection,
+      realmData,
+      wallet,
+      realmRecords.get(realmId) || [],
+      window
+    );
+    torSignatures.push(...sources.torSignatures);
+    voteRecordSignatures.push(...sources.voteRecordSignatures);
+  }
+
+  // Source 3: Fetch signatures for wallet once (all governance interactions including comments, deposits, executes)
+  logInfo('  Querying wallet for all governance interactions...');
+  const walletSignatures = await fetchSignaturesForAddress(
+    connection,
+    walletPubkey,
+    startTimestamp,
+    endTimestamp,
+    getSignatureProgress(wallet.address, wallet.address)
+  );
+  logSuccess(`  Found ${walletSignatures.length} wallet transactions`);
+
+  // Merge and deduplicate all signature sources
+  const signatures = mergeSignatures(torSignatures, voteRecordSignatures, walletSignatures);
+  logSuccess(`Total unique transactions: ${signatures.length}`);
+
+  // Log summary of sources
+  if (signatures.length > 0) {
+    logInfo(`  Transaction sources:`);
+    logInfo(`    - TokenOwnerRecords: ${torSignatures.length}`);
+    logInfo(`    - VoteRecords: ${voteRecordSignatures.length}`);
+    logInfo(`    - Wallet: ${walletSignatures.length}`);
+  }
+
+  return {
+    signatures,
+    tokenOwnerRecords: realmRecords,
+    sourceCounts: {
+      tokenOwnerRecords: torSignatures.length,
+      voteRecords: voteRecordSignatures.length,
+      wallet: walletSignatures.length
+    }
+  };
+}
+
+/**
+ * Run the full tracking pipeline for a single wallet
+ *
+ * Transactions are fetched and parsed in chunks, saving a checkpoint after each
+ * one. On SIGINT the results processed so far are returned with complete = false.
+ *
+ * @param connection - Shared Solana connection
+ * @param realms - Configured realms
+ * @param membership - Shared realm membership cache
+ * @param wallet - Wallet to track
+ * @param window - Date range to track
+ * @param reportOptions - Reimbursement cap, cost split rule and attribution mode for the results
+ * @returns Tracking results per realm (empty when no governance transactions were found)
+ */
+export async function trackWallet(
+  connection: Connection,
+  realms: RealmContext[],
+  membership: RealmMembership,
+  wallet: WalletTarget,
+  window: TrackingWindow,
+  reportOptions: ResultsOptions = {}
+): Promise<WalletTracking> {
+  const progress = getWalletCheckpoint(wallet.address);
+
+  try {
+    await processWallet(
+      connection,
+      realms,
+      membership,
+      wallet,
+      window,
+      progress,
+      reportOptions.attributionMode ?? AttributionMode.FEE_PAYER
+    );
+  } catch (error) {
+    if (!(error instanceof InterruptedError)) {
+      throw error;
+    }
+    clearLine();
+    saveCheckpoint(true);
+    logWarning('Interrupted - reporting the transactions processed so far');
+    return buildWalletTracking(realms, progress, false, reportOptions, new Map());
+  }
+
+  const proposalMetadata = await fetchWalletProposals(connection, membership, progress);
+  await fillVoterWeights(connection, membership, progress);
+  return buildWalletTracking(realms, progress, true, reportOptions, proposalMetadata);
+}
+
+/**
+ * Decode the proposals the wallet's tracked transactions acted on
+ * Reports fall back to proposal addresses when decoding fails
+ */
+async function fetchWalletProposals(
+  connection: Connection,
+  membership: RealmMembership,
+  progress: WalletCheckpoint
+): Promise<Map<string, ProposalMetadata>> {
+  const proposals = new Set<string>();
+  for (const outcome of Object.values(progress.outcomes)) {
+    if (outcome?.realmId && outcome.transaction.proposal) {
+      proposals.add(outcome.transaction.proposal);
+    }
+  }
+  if (proposals.size === 0) {
+    return new Map();
+  }
+
+  try {
+    return await fetchProposalMetadata(connection, membership.programIds, Array.from(proposals));
+  } catch (error) {
+    logWarning(`Failed to fetch proposal metadata: ${(error as Error).message}`);
+    return new Map();
+  }
+}
+
+/**
+ * Read the voter weight of each tracked vote from its VoteRecord
+ * The vote is also taken from the record when the instruction could not be decoded.
+ * Votes whose record was closed (relinquished during voting) keep no weight.
+ */
+async function fillVoterWeights(
+  connection: Connection,
+  membership: RealmMembership,
+  progress: WalletCheckpoint
+): Promise<void> {
+  const votes = new Map<string, TrackedTransaction[]>();
+  for (const outcome of Object.values(progress.outcomes)) {
+    // A failed vote left the VoteRecord untouched, so its weight is not the vote's
+    const vote = outcome?.realmId && outcome.transaction.status !== TransactionStatus.FAILED
+      ? outcome.transaction.vote
+      : null;
+    if (vote?.voteRecord && vote.voterWeight === null) {
+      const txs = votes.get(vote.voteRecord) || [];
+      txs.push(outcome!.transaction);
+      votes.set(vote.voteRecord, txs);
+    }
+  }
+  if (votes.size === 0) {
+    return;
+  }
+
+  try {
+    logInfo(`Reading ${votes.size} VoteRecords for voter weights...`);
+    const records = await fetchVoteRecords(connection, membership.programIds, Array.from(votes.keys()));
+
+    for (const [address, record] of records) {
+      for (const tx of votes.get(address) || []) {
+        const vote = tx.vote!;
+        vote.voterWeight = record.voterWeight;
+        if (vote.kind === null && record.vote) {
+          vote.kind = record.vote.kind;
+          vote.choices = record.vote.choices;
+        }
+      }
+    }
+  } catch (error) {
+    logWarning(`Failed to read VoteRecords: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Collect signatures, then fetch and parse every transaction not yet in the checkpoint
+ */
+async function processWallet(
+  connection: Connection,
+  realms: RealmContext[],
+  membership: RealmMembership,
+  wallet: WalletTarget,
+  window: TrackingWindow,
+  progress: WalletCheckpoint,
+  attributionMode: AttributionMode
+): Promise<void> {
+  let realmRecords: Map<string, GoverningTokenOwnerRecord[]> | null = null;
+
+  if (!progress.signatures) {
+    const collection = await collectSignatures(connection, realms, wallet, window);
+    progress.signatures = collection.signatures;
+    realmRecords = collection.tokenOwnerRecords;
+    saveCheckpoint(true);
+  } else {
+    logInfo(`Using ${progress.signatures.length} signatures from checkpoint`);
+  }
+
+  const signatures = progress.signatures;
+  if (signatures.length === 0) {
+    logWarning('No transactions found in the specified date range');
+    return;
+  }
+
+  const pending = signatures.filter(sig => !(sig.signature in progress.outcomes));
+  if (pending.length < signatures.length) {
+    logInfo(`${signatures.length - pending.length} transactions already processed (checkpoint)`);
+  }
+  if (pending.length === 0) {
+    return;
+  }
+
+  // TokenOwnerRecords are needed for parsing; look them up again when resuming
+  const records = realmRecords ?? await fetchWalletTokenOwnerRecords(connection, realms, wallet);
+
+  logSeparator();
+
+  const parseContexts: ParseContext[] = realms.map(({ realmId, realmData }) => ({
+    walletAddress: wallet.address,
+    attributionMode,
+    realmId,
+    membership,
+    realmData,
+    tokenOwnerRecords: records.get(realmId) || []
+  }));
+
+  // Resolve and parse in chunks so progress can be checkpointed; the worker pool
+  // keeps fetching while a chunk is processed
+  logInfo('Fetching and analyzing transaction details...');
+
+  const blockTimes = new Map(pending.map(s => [s.signature, s.blockTime]));
+  let chunk: FetchedTransaction[] = [];
+  let processed = 0;
+
+  for await (const fetched of streamTransactions(connection, pending.map(s => s.signature), MAX_CONCURRENT_REQUESTS)) {
+    throwIfInterrupted();
+    chunk.push(...fetched);
+    if (chunk.length < TRANSACTION_CHECKPOINT_INTERVAL && processed + chunk.length < pending.length) {
+      continue;
+    }
+
+    await classifyTransactions(connection, membership, chunk, blockTimes, parseContexts, progress);
+    saveCheckpoint(true);
+    processed += chunk.length;
+    chunk = [];
+    logProgress(`Processed ${processed}/${pending.length} transactions...`);
+  }
+
+  clearLine();
+  logSuccess(`Processed ${pending.length} transactions`);
+}
+
+/**
+ * Resolve the realms of the accounts a chunk of fetched transactions references,
+ * then parse each transaction and record its outcome
+ * @param blockTimes - Block time of each signature from the signature list
+ */
+async function classifyTransactions(
+  connection: Connection,
+  membership: RealmMembership,
+  chunk: FetchedTransaction[],
+  blockTimes: Map<string, number | null | undefined>,
+  parseContexts: ParseContext[],
+  progress: WalletCheckpoint
+): Promise<void> {
+  // Resolve which realm each referenced governance or plugin account belongs to
+  const governanceAccounts = new Set<string>();
+  const pluginPrograms = Array.from(membership.pluginProgramIds);
+  for (const { transaction: tx } of chunk) {
+    if (!tx) {
+      continue;
+    }
+    for (const programId of membership.programIds) {
+      getGovernanceInstructionAccounts(tx, programId, pluginPrograms).forEach(account => governanceAccounts.add(account));
+    }
+  }
+  await resolveAccountRealms(connection, membership, Array.from(governanceAccounts));
+
+  // Parse transactions and assign each to the configured realm it belongs to
+  for (const { signature, transaction: tx } of chunk) {
+    // Find the blockTime from our signature list
+    const blockTime = blockTimes.get(signature) || tx?.blockTime || 0;
+    progress.outcomes[signature] = blockTime
+      ? classifyTransaction(signature, tx, blockTime, parseContexts)
+      : null;
+  }
+}
+
+/**
+ * Assign a transaction to the first configured realm that tracks it
+ * It is only rejected when it belongs to none of the configured realms. A
+ * transaction the wallet paid for another token owner is kept unattributed.
+ */
+function classifyTransaction(
+  signature: string,
+  tx: ParsedTransactionWithMeta | null,
+  blockTime: number,
+  parseContexts: ParseContext[]
+): TransactionOutcome {
+  let rejected: RejectedTransaction | null = null;
+
+  for (const context of parseContexts) {
+    const outcome = parseTransaction(signature, tx, blockTime, context);
+
+    if (outcome?.status === 'tracked' || outcome?.status === 'paid_for_others') {
+      return { realmId: context.realmId, transaction: outcome.transaction, attributed: outcome.status === 'tracked' };
+    }
+    if (outcome?.status === 'rejected' && !rejected) {
+      rejected = outcome.transaction;
+    }
+  }
+
+  return rejected ? { realmId: null, transaction: rejected } : null;
+}
+
+/**
+ * Build per-realm results from the outcomes recorded for a wallet
+ */
+function buildWalletTracking(
+  realms: RealmContext[],
+  progress: WalletCheckpoint,
+  complete: boolean,
+  reportOptions: ResultsOptions,
+  proposalMetadata: Map<string, ProposalMetadata>
+): WalletTracking {
+  const trackedByRealm = new Map<string, TrackedTransaction[]>(
+    realms.map(({ realmId }) => [realmId, []])
+  );
+  const paidForOthersByRealm = new Map<string, TrackedTransaction[]>(
+    realms.map(({ realmId }) => [realmId, []])
+  );
+  const rejectedTransactions: RejectedTransaction[] = [];
+
+  for (const { signature } of progress.signatures || []) {
+    const outcome = progress.outcomes[signature];
+    if (!outcome) {
+      continue;
+    }
+    if (outcome.realmId === null) {
+      rejectedTransactions.push(outcome.transaction);
+      continue;
+    }
+    if (outcome.attributed) {
+      trackedByRealm.get(outcome.realmId)?.push(outcome.transaction);
+    }
+    // Wallet-paid actions on other owners' TokenOwnerRecords, attributed or not
+    if (!outcome.transaction.sponsored && outcome.transaction.onBehalfOf.length > 0) {
+      paidForOthersByRealm.get(outcome.realmId)?.push(outcome.transaction);
+    }
+  }
+
+  if (rejectedTransactions.length > 0) {
+    logWarning(`Rejected ${rejectedTransactions.length} governance transactions outside the configured realm(s)`);
+  }
+
+  const realmResults: RealmResults[] = realms.map(({ realmId }) => {
+    const tracked = trackedByRealm.get(realmId) || [];
+    const prefix = realms.length > 1 ? `Realm ${realmId}: ` : '';
+
+    if (tracked.length === 0) {
+      logWarning(`${prefix}No governance transactions found for this realm`);
+    } else {
+      logSuccess(`${prefix}Found ${tracked.length} governance transactions`);
+    }
+
+    const results = calculateResults(tracked, rejectedTransactions, {
+      ...reportOptions,
+      incomplete: !complete,
+      realmId,
+      proposalMetadata,
+      paidForOthers: paidForOthersByRealm.get(realmId) || []
+    });
+    return { realmId, results };
+  });
+  logSeparator();
+
+  return { realmResults, rejected: rejectedTransactions, complete };
+}
+
+/**
+ * Fetch TokenOwnerRecord and VoteRecord signatures for one realm's records
+ */
+async function fetchRecordSignatures(
+  connection: Connection,
+  realmData: RealmData,
+  wallet: WalletTarget,
+  tokenOwnerRecords: GoverningTokenOwnerRecord[],
+  window: TrackingWindow
+): Promise<{ torSignatures: ConfirmedSignatureInfo[]; voteRecordSignatures: ConfirmedSignatureInfo[] }> {
+  const { startTimestamp, endTimestamp } = window;
+  const torSignatures: ConfirmedSignatureInfo[] = [];
+  const voteRecordSignatures: ConfirmedSignatureInfo[] = [];
+
+  for (const record of tokenOwnerRecords) {
+    if (!record.exists) {
+      continue;
+    }
+    const label = record.delegator ? `delegated ${record.kind}` : record.kind;
+
+    // Source 1: Fetch signatures for TokenOwnerRecord (votes, proposals)
+    logInfo(`  Querying ${label} TokenOwnerRecord for votes/proposals...`);
+    const recordSignatures = await fetchSignaturesForAddress(
+      connection,
+      record.address,
+      startTimestamp,
+      endTimestamp,
+      getSignatureProgress(wallet.address, record.address.toString())
+    );
+    torSignatures.push(...recordSignatures);
+    logSuccess(`  Found ${recordSignatures.length} ${label} TokenOwnerRecord transactions`);
+
+    // Source 2: Query VoteRecord accounts directly (more comprehensive vote discovery)
+    logInfo(`  Querying ${label} VoteRecord accounts directly...`);
+    const voteRecords = await fetchVoteRecordsForTokenOwnerRecord(
+      connection,
+      realmData.programId,
+      record.address,
+      new PublicKey(record.delegator ?? wallet.address),
+      startTimestamp,
+      endTimestamp
+    );
+
+    if (voteRecords.length > 0) {
+      // Fetch transaction signatures for each VoteRecord
+      logInfo(`  Fetching transaction signatures for ${voteRecords.length} VoteRecords...`);
+      let recordVoteSignatureCount = 0;
+
+      for (const voteRecord of voteRecords) {
+        await throttle();
+        try {
+          const vrSigs = await fetchSignaturesForAddress(
+            connection,
+            voteRecord.pubkey,
+            startTimestamp,
+            endTimestamp,
+            getSignatureProgress(wallet.address, voteRecord.pubkey.toString())
+          );
+          voteRecordSignatures.push(...vrSigs);
+          recordVoteSignatureCount += vrSigs.length;
+        } catch (error) {
+          if (error instanceof InterruptedError) {
+            throw error;
+          }
+          logWarning(`  Failed to fetch signatures for VoteRecord ${voteRecord.pubkey.toString()}: ${(error as Error).message}`);
+        }
+      }
+
+      logSuccess(`  Found ${recordVoteSignatureCount} ${label} VoteRecord transactions`);
+    } else {
+      logInfo(`  No ${label} VoteRecord accounts found`);
+    }
+  }
+
+  return { torSignatures, voteRecordSignatures };
+}
@@ -1,23 +1,38 @@
 /**
  * Transaction parser for identifying governance instructions and extracting fees
  * 
- * Note: Since we now fetch signatures from realm-specific accounts (TokenOwnerRecord),
- * we no longer need to verify realm involvement. We only need to identify governance
- * instruction types.
+ * Note: The wallet signature source returns governance activity from every realm the
+ * wallet participates in, so each transaction is also checked against the configured
+ * realm using the accounts referenced by its governance instructions.
  */
 
-import { ParsedTransactionWithMeta } from '@solana/web3.js';
+import { ParsedTransactionWithMeta, TransactionError } from '@solana/web3.js';
 import {
   TransactionType,
-  TrackedTransaction
+  TrackedTransaction,
+  ParseOutcome,
+  GoverningTokenKind,
+  GovernanceInstructionType,
+  RentEvent,
+  VoteDetails,
+  GovernanceInstruction,
+  CostAllocation,
+  CostSplitRule,
+  TransactionStatus,
+  AttributionMode
 } from '../types';
+import { RealmMembership, getAccountRealm, getProposalScope, getTokenOwners } from './realm-membership';
+import { RealmData, GoverningTokenOwnerRecord } from './governance';
+import { decodeVote } from './account-decoder';
 import {
-  GOVERNANCE_PROGRAM_ID,
   GOVERNANCE_CHAT_PROGRAM_ID,
   GOVERNANCE_INSTRUCTION_MAP,
-  LAMPORTS_PER_SOL
+  COMPUTE_BUDGET_PROGRAM_ID,
+  LAMPORTS_PER_SOL,
+  LAMPORTS_PER_SIGNATURE
 } from '../constants';
 import { formatTimestamp } from '../utils/date-utils';
+import { decodeBase58 } from '../utils/base58';
 
 /**
  * Convert string transaction type from GOVERNANCE_INSTRUCTION_MAP to TransactionType enum
@@ -57,15 +72,16 @@ function stringToTransactionType(typeString: string): TransactionType {
  */
 function getTransactionTypeFromDiscriminator(
   discriminator: number,
-  programId: string
+  programId: string,
+  governanceProgramId: string
 ): TransactionType | null {
   // Chat program - any instruction is a comment
   if (programId === GOVERNANCE_CHAT_PROGRAM_ID) {
     return TransactionType.COMMENT;
   }
 
-  // Main governance program - use complete mapping
-  if (programId === GOVERNANCE_PROGRAM_ID) {
+  // Realm's governance program - use complete mapping
+  if (programId === governanceProgramId) {
     const typeString = GOVERNANCE_INSTRUCTION_MAP[discriminator];
     if (typeString) {
       return stringToTransactionType(typeString);
@@ -80,9 +96,22 @@ function getTransactionTypeFromDiscriminator(
 
 /**
  * Check if a program ID is a governance-related program
+ * @param governanceProgramId - The governance program deployment owning the realm
  */
-function isGovernanceProgram(programId: string): boolean {
-  return programId === GOVERNANCE_PROGRAM_ID || programId === GOVERNANCE_CHAT_PROGRAM_ID;
+function isGovernanceProgram(programId: string, governanceProgramId: string): boolean {
+  return programId === governanceProgramId || programId === GOVERNANCE_CHAT_PROGRAM_ID;
+}
+
+/**
+ * Check if a transaction calls one of the realm's voter weight plugins, directly or by CPI
+ * @param pluginPrograms - Voter weight plugin programs configured for the realm
+ */
+function callsVoterWeightPlugin(tx: ParsedTransactionWithMeta, pluginPrograms: string[]): boolean {
+  const instructions = [
+    ...tx.transaction.message.instructions,
+    ...(tx.meta?.innerInstructions || []).flatMap(inner => inner.instructions)
+  ];
+  return instructions.some(instruction => pluginPrograms.includes(instruction.programId.toString()));
 }
 
 /**
@@ -242,9 +271,12 @@ function getInstructionDiscriminator(data: string | Uint8Array | Buffer): number
  * 1. First, try log-based detection (most reliable - parses GOVERNANCE-INSTRUCTION logs)
  * 2. Fall back to discriminator-based detection if logs don't contain instruction info
  * 3. If governance program is involved but type is unknown, return OTHER_GOVERNANCE
+ * 4. Transactions that only call the realm's voter weight plugins are VOTER_WEIGHT_PLUGIN
  */
 function determineTransactionType(
-  tx: ParsedTransactionWithMeta
+  tx: ParsedTransactionWithMeta,
+  governanceProgramId: string,
+  pluginPrograms: string[]
 ): TransactionType | null {
   // PRIMARY METHOD: Try log-based detection first (most reliable)
   const logBasedType = getInstructionTypeFromLogs(tx);
@@ -261,7 +293,7 @@ function determineTransactionType(
       ? instruction.programId.toString()
       : '';
 
-    if (!isGovernanceProgram(programId)) {
+    if (!isGovernanceProgram(programId, governanceProgramId)) {
       continue;
     }
 
@@ -274,7 +306,7 @@ function determineTransactionType(
       if (typeof instructionData === 'string') {
         const discriminator = getInstructionDiscriminator(instructionData);
         if (discriminator !== null) {
-          const txType = getTransactionTypeFromDiscriminator(discriminator, programId);
+          const txType = getTransactionTypeFromDiscriminator(discriminator, programId, governanceProgramId);
           if (txType) {
             return txType;
           }
@@ -343,13 +375,13 @@ function determineTransactionType(
             return TransactionType.COMMENT;
           }
 
-          if (programId === GOVERNANCE_PROGRAM_ID && 'data' in ix) {
+          if (programId === governanceProgramId && 'data' in ix) {
             const data = (ix as { data?: string | object }).data;
             if (data) {
               if (typeof data === 'string') {
                 const discriminator = getInstructionDiscriminator(data);
                 if (discriminator !== null) {
-                  const txType = getTransactionTypeFromDiscriminator(discriminator, programId);
+                  const txType = getTransactionTypeFromDiscriminator(discriminator, programId, governanceProgramId);
                   if (txType) {
                     return txType;
                   }
@@ -401,75 +433,438 @@ function determineTransactionType(
     }
   }
 
+  // Plugin instructions sent on their own, e.g. a VSR deposit or a voter weight record update
+  if (callsVoterWeightPlugin(tx, pluginPrograms)) {
+    return TransactionType.VOTER_WEIGHT_PLUGIN;
+  }
+
   return null;
 }
 
 /**
- * Calculate rent cost from balance changes
- * Rent is the SOL deposited for account creation (not recovered in the same tx)
- * 
- * Note: This calculates rent based on the wallet's balance change.
- * The wallet pays rent when accounts are created, and this is reflected
- * in the balance difference (preBalance - postBalance).
+ * Program log lines used to attribute compute units to instructions
+ */
+const INVOKE_LOG = /^Program (\w+) invoke \[(\d+)\]$/;
+const CONSUMED_LOG = /^Program (\w+) consumed (\d+) of \d+ compute units$/;
+const RESULT_LOG = /^Program (\w+) (success|failed)/;
+const ANCHOR_INSTRUCTION_LOG = /^Program log: Instruction: (\w+)$/;
+
+/**
+ * Compute units consumed and Anchor instruction names per instruction, read from
+ * the program logs
+ * Keys are "outer" for top-level instructions and "outer.inner" for CPIs.
+ * Builtin programs that log no consumption, and instructions after a log
+ * truncation, have no entry.
+ */
+function getInstructionLogs(tx: ParsedTransactionWithMeta): { units: Map<string, number>; names: Map<string, string> } {
+  const units = new Map<string, number>();
+  const names = new Map<string, string>();
+  const stack: string[] = [];
+  let outerIndex = -1;
+  let innerIndex = -1;
+
+  for (const log of tx.meta?.logMessages || []) {
+    const invoke = log.match(INVOKE_LOG);
+    if (invoke) {
+      if (invoke[2] === '1') {
+        outerIndex++;
+        innerIndex = -1;
+        stack.length = 0;
+        stack.push(`${outerIndex}`);
+      } else {
+        innerIndex++;
+        stack.push(`${outerIndex}.${innerIndex}`);
+      }
+      continue;
+    }
+
+    const consumed = log.match(CONSUMED_LOG);
+    if (consumed && stack.length > 0) {
+      units.set(stack[stack.length - 1], Number(consumed[2]));
+      continue;
+    }
+
+    const named = log.match(ANCHOR_INSTRUCTION_LOG);
+    if (named && stack.length > 0 && !names.has(stack[stack.length - 1])) {
+      names.set(stack[stack.length - 1], named[1]);
+      continue;
+    }
+
+    if (RESULT_LOG.test(log)) {
+      stack.pop();
+    } else if (log.startsWith('Log truncated')) {
+      break;
+    }
+  }
+
+  return { units, names };
+}
+
+/**
+ * Identify a governance or chat instruction from its program and data
+ * @returns null if the instruction does not belong to a governance program
+ */
+function identifyInstruction(
+  instruction: ParsedTransactionWithMeta['transaction']['message']['instructions'][number],
+  governanceProgramId: string
+): { name: string; transactionType: TransactionType } | null {
+  const programId = instruction.programId.toString();
+  if (!isGovernanceProgram(programId, governanceProgramId)) {
+    return null;
+  }
+  if (programId === GOVERNANCE_CHAT_PROGRAM_ID) {
+    return { name: 'PostMessage', transactionType: TransactionType.COMMENT };
+  }
+
+  const data = 'data' in instruction ? decodeBase58(instruction.data) : null;
+  if (!data || data.length === 0) {
+    return { name: 'Unknown', transactionType: TransactionType.OTHER_GOVERNANCE };
+  }
+
+  // PostMessage belongs to the chat program; governance instructions from 29 on are unnamed here
+  const discriminator = data[0];
+  const name = discriminator !== GovernanceInstructionType.PostMessage
+    ? GovernanceInstructionType[discriminator]
+    : undefined;
+
+  return {
+    name: name ?? `Instruction ${discriminator}`,
+    transactionType: getTransactionTypeFromDiscriminator(discriminator, programId, governanceProgramId)
+      ?? TransactionType.OTHER_GOVERNANCE
+  };
+}
+
+/**
+ * Identify a call to one of the realm's voter weight plugins
+ * @param logName - Instruction name logged by the plugin (Anchor programs), if any
+ * @returns null if the instruction does not belong to a plugin
+ */
+function identifyPluginInstruction(
+  instruction: ParsedTransactionWithMeta['transaction']['message']['instructions'][number],
+  pluginPrograms: string[],
+  logName: string | undefined
+): { name: string; transactionType: TransactionType } | null {
+  if (!pluginPrograms.includes(instruction.programId.toString())) {
+    return null;
+  }
+  return { name: logName ?? 'Plugin Instruction', transactionType: TransactionType.VOTER_WEIGHT_PLUGIN };
+}
+
+/**
+ * List every governance, chat and voter weight plugin instruction in execution order,
+ * including CPIs
+ * @param governanceProgramId - The governance program deployment owning the realm
+ * @param pluginPrograms - Voter weight plugin programs configured for the realm
  */
-function calculateRentCost(
+export function getGovernanceInstructions(
   tx: ParsedTransactionWithMeta,
-  walletAddress: string
-): number {
+  governanceProgramId: string,
+  pluginPrograms: string[] = []
+): GovernanceInstruction[] {
+  const { units, names } = getInstructionLogs(tx);
+  const innerByOuter = new Map(
+    (tx.meta?.innerInstructions || []).map(inner => [inner.index, inner.instructions])
+  );
+  const instructions: GovernanceInstruction[] = [];
+
+  tx.transaction.message.instructions.forEach((outer, outerIndex) => {
+    const positioned = [
+      { instruction: outer, innerIndex: null as number | null },
+      ...(innerByOuter.get(outerIndex) || []).map((instruction, innerIndex) => ({ instruction, innerIndex }))
+    ];
+
+    for (const { instruction, innerIndex } of positioned) {
+      const key = innerIndex === null ? `${outerIndex}` : `${outerIndex}.${innerIndex}`;
+      const identified = identifyInstruction(instruction, governanceProgramId)
+        ?? identifyPluginInstruction(instruction, pluginPrograms, names.get(key));
+      if (!identified) {
+        continue;
+      }
+      instructions.push({
+        ...identified,
+        programId: instruction.programId.toString(),
+        outerIndex,
+        innerIndex,
+        computeUnits: units.get(key) ?? null
+      });
+    }
+  });
+
+  return instructions;
+}
+
+/**
+ * Split lamports in proportion to weights; the remainder goes to the first shares
+ * so the shares always sum to the total
+ */
+function splitLamports(total: number, weights: number[]): number[] {
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+  const shares = weights.map(weight => Math.floor((total * weight) / weightSum));
+  let remainder = total - shares.reduce((sum, share) => sum + share, 0);
+  for (let i = 0; remainder > 0; i = (i + 1) % shares.length, remainder--) {
+    shares[i]++;
+  }
+  return shares;
+}
+
+/**
+ * Split a transaction's fee and rent between its governance instructions
+ *
+ * With the primary rule (or a single instruction) the whole cost goes to the
+ * transaction type. Compute-unit weighting falls back to an even split when any
+ * instruction's consumption is missing from the logs.
+ *
+ * @param tx - Tracked transaction
+ * @param rule - Cost split rule
+ * @returns One allocation per instruction (or a single one for the primary rule)
+ */
+export function allocateCost(tx: TrackedTransaction, rule: CostSplitRule): CostAllocation[] {
+  const { instructions } = tx;
+  if (rule === CostSplitRule.PRIMARY || instructions.length <= 1) {
+    return [{
+      transactionType: tx.transactionType,
+      fee: tx.transactionFee,
+      rentPaid: tx.rentPaid,
+      rentRecovered: tx.rentRecovered
+    }];
+  }
+
+  const byUnits = rule === CostSplitRule.COMPUTE_UNITS &&
+    instructions.every(ix => ix.computeUnits !== null) &&
+    instructions.some(ix => ix.computeUnits! > 0);
+  const weights = instructions.map(ix => byUnits ? ix.computeUnits! : 1);
+
+  const fees = splitLamports(tx.transactionFee, weights);
+  const rentPaid = splitLamports(tx.rentPaid, weights);
+  const rentRecovered = splitLamports(tx.rentRecovered, weights);
+
+  return instructions.map((ix, index) => ({
+    transactionType: ix.transactionType,
+    fee: fees[index],
+    rentPaid: rentPaid[index],
+    rentRecovered: rentRecovered[index]
+  }));
+}
+
+/**
+ * Rent paid and recovered by the wallet in one transaction
+ */
+interface RentFlows {
+  rentPaid: number;
+  rentRecovered: number;
+  rentEvents: RentEvent[];
+}
+
+/**
+ * Get the base58 address of every account key in a transaction
+ */
+function getAccountAddresses(tx: ParsedTransactionWithMeta): string[] {
+  return tx.transaction.message.accountKeys.map(key =>
+    typeof key === 'string' ? key : key.pubkey?.toString() || ''
+  );
+}
+
+/**
+ * Calculate rent paid and recovered from balance changes
+ *
+ * The fee payer's balance change net of the fee is the rent it paid (positive) or
+ * recovered (negative). When that net change is fully explained by accounts
+ * created (balance 0 -> n) and closed (balance n -> 0) in the transaction, those
+ * accounts are recorded as rent events so a later refund can be matched to the
+ * transaction that paid the rent. Otherwise only the net amount is known.
+ */
+function calculateRentFlows(
+  tx: ParsedTransactionWithMeta,
+  feePayer: string
+): RentFlows {
+  const none: RentFlows = { rentPaid: 0, rentRecovered: 0, rentEvents: [] };
   if (!tx.meta) {
-    return 0;
+    return none;
   }
 
-  const accountKeys = tx.transaction.message.accountKeys;
-  const preBalances = tx.meta.preBalances;
-  const postBalances = tx.meta.postBalances;
-  const fee = tx.meta.fee;
-
-  // Find wallet index in account keys
-  let walletIndex = -1;
-  for (let i = 0; i < accountKeys.length; i++) {
-    const pubkey = typeof accountKeys[i] === 'string'
-      ? accountKeys[i]
-      : accountKeys[i].pubkey?.toString() || '';
-    
-    if (pubkey === walletAddress) {
-      walletIndex = i;
-      break;
+  const addresses = getAccountAddresses(tx);
+  const { preBalances, postBalances, fee } = tx.meta;
+
+  // Find fee payer index in account keys
+  const payerIndex = addresses.indexOf(feePayer);
+  if (payerIndex === -1) {
+    return none;
+  }
+
+  // Balance change = fee + rent deposits - rent refunds
+  const balanceChange = (preBalances[payerIndex] || 0) - (postBalances[payerIndex] || 0);
+  const netRent = balanceChange - fee;
+
+  // Accounts created or closed in this transaction
+  const rentEvents: RentEvent[] = [];
+  let created = 0;
+  let closed = 0;
+  addresses.forEach((address, index) => {
+    if (index === payerIndex) {
+      return;
+    }
+    const pre = preBalances[index] || 0;
+    const post = postBalances[index] || 0;
+    if (pre === 0 && post > 0) {
+      rentEvents.push({ account: address, lamports: post });
+      created += post;
+    } else if (pre > 0 && post === 0) {
+      rentEvents.push({ account: address, lamports: -pre });
+      closed += pre;
     }
+  });
+
+  // The fee payer funded every new account and received every closed account's lamports
+  if (rentEvents.length > 0 && created - closed === netRent) {
+    return { rentPaid: created, rentRecovered: closed, rentEvents };
   }
 
-  if (walletIndex === -1) {
-    // Wallet not found in account keys - might be a signer but not directly involved
-    // In this case, rent cost is 0 (wallet didn't pay rent directly)
-    return 0;
+  return {
+    rentPaid: Math.max(0, netRent),
+    rentRecovered: Math.max(0, -netRent),
+    rentEvents: []
+  };
+}
+
+/**
+ * ComputeBudget instruction discriminators (first byte of instruction data)
+ */
+const SET_COMPUTE_UNIT_LIMIT = 2; // followed by u32 units
+const SET_COMPUTE_UNIT_PRICE = 3; // followed by u64 micro-lamports per compute unit
+
+/**
+ * Fee components of a transaction
+ */
+interface FeeBreakdown {
+  baseFee: number;
+  priorityFee: number;
+  computeUnitPrice: number | null;
+  computeUnitLimit: number | null;
+  computeUnitsConsumed: number | null;
+}
+
+/**
+ * Split the transaction fee into the base (signature) fee and the priority fee
+ *
+ * The compute unit price and limit are decoded from the ComputeBudget instructions.
+ * The priority fee is the part of meta.fee above the signature fees, which equals
+ * price x limit as charged by the runtime.
+ */
+function getFeeBreakdown(tx: ParsedTransactionWithMeta): FeeBreakdown {
+  let computeUnitPrice: number | null = null;
+  let computeUnitLimit: number | null = null;
+
+  for (const instruction of tx.transaction.message.instructions) {
+    if (instruction.programId.toString() !== COMPUTE_BUDGET_PROGRAM_ID || !('data' in instruction)) {
+      continue;
+    }
+
+    const data = decodeBase58(instruction.data);
+    if (!data || data.length === 0) {
+      continue;
+    }
+
+    if (data[0] === SET_COMPUTE_UNIT_LIMIT && data.length >= 5) {
+      computeUnitLimit = data.readUInt32LE(1);
+    } else if (data[0] === SET_COMPUTE_UNIT_PRICE && data.length >= 9) {
+      computeUnitPrice = Number(data.readBigUInt64LE(1));
+    }
   }
 
-  // Calculate balance change
-  const preBal = preBalances[walletIndex] || 0;
-  const postBal = postBalances[walletIndex] || 0;
-  const balanceChange = preBal - postBal;
+  const fee = tx.meta?.fee || 0;
+  const baseFee = Math.min(fee, tx.transaction.signatures.length * LAMPORTS_PER_SIGNATURE);
 
-  // The total SOL spent by the wallet is:
-  // - Transaction fee (always paid by fee payer, usually the wallet)
-  // - Rent deposits (when creating accounts)
-  // 
-  // Balance change = fee + rent deposits - rent refunds
-  // So: rent deposits = balanceChange - fee + rent refunds
-  //
-  // For simplicity, we calculate rent cost as:
-  // rentCost = max(0, balanceChange - fee)
-  // This captures rent deposits but may miss rent refunds in the same transaction
-  
-  const rentCost = Math.max(0, balanceChange - fee);
+  return {
+    baseFee,
+    priorityFee: fee - baseFee,
+    computeUnitPrice,
+    computeUnitLimit,
+    computeUnitsConsumed: tx.meta?.computeUnitsConsumed ?? null
+  };
+}
+
+/**
+ * Position of the VoteRecord in CastVote accounts
+ * (realm, governance, proposal, proposal owner record, voter record, authority, vote record, ...)
+ */
+const CAST_VOTE_RECORD_ACCOUNT_INDEX = 6;
+
+/**
+ * Decode the vote from the transaction's CastVote instruction, including CPIs
+ * The voter weight is left unset; it is read from the VoteRecord afterwards.
+ * @returns null if the transaction does not cast a vote
+ */
+function getCastVote(tx: ParsedTransactionWithMeta, governanceProgramId: string): VoteDetails | null {
+  const instructions = [
+    ...tx.transaction.message.instructions,
+    ...(tx.meta?.innerInstructions || []).flatMap(inner => inner.instructions)
+  ];
+
+  for (const instruction of instructions) {
+    if (instruction.programId.toString() !== governanceProgramId || !('data' in instruction)) {
+      continue;
+    }
+
+    const data = decodeBase58(instruction.data);
+    if (!data || data[0] !== GovernanceInstructionType.CastVote) {
+      continue;
+    }
+
+    const vote = decodeVote(data, 1);
+    return {
+      voteRecord: instruction.accounts[CAST_VOTE_RECORD_ACCOUNT_INDEX]?.toString() ?? null,
+      kind: vote?.kind ?? null,
+      choices: vote?.choices ?? [],
+      voterWeight: null
+    };
+  }
 
-  return rentCost;
+  return null;
+}
+
+/**
+ * Fee reimbursable under the DAO policy: the base fee plus the priority fee up to the cap
+ * @param priorityFeeCap - Per-transaction cap in lamports, null for no cap
+ */
+export function getReimbursableFee(tx: TrackedTransaction, priorityFeeCap: number | null): number {
+  const priorityFee = priorityFeeCap === null ? tx.priorityFee : Math.min(tx.priorityFee, priorityFeeCap);
+  return tx.baseFee + priorityFee;
+}
+
+/**
+ * Format an on-chain transaction error for reports
+ * e.g. { InstructionError: [1, { Custom: 534 }] } -> "Instruction #2: Custom(534)"
+ */
+export function formatTransactionError(error: TransactionError): string {
+  if (typeof error === 'string') {
+    return error;
+  }
+
+  const describe = (detail: unknown): string => {
+    if (typeof detail === 'string') {
+      return detail;
+    }
+    if (detail && typeof detail === 'object') {
+      const entries = Object.entries(detail);
+      if (entries.length === 1) {
+        return `${entries[0][0]}(${JSON.stringify(entries[0][1])})`;
+      }
+    }
+    return JSON.stringify(detail);
+  };
+
+  const instructionError = (error as { InstructionError?: [number, unknown] }).InstructionError;
+  if (instructionError) {
+    return `Instruction #${instructionError[0] + 1}: ${describe(instructionError[1])}`;
+  }
+  return describe(error);
 }
 
 /**
  * Get the fee payer address from a transaction
  * The fee payer is always the first account in the account keys list
  */
-function getFeePayer(tx: ParsedTransactionWithMeta): string | null {
+export function getFeePayer(tx: ParsedTransactionWithMeta): string | null {
   const accountKeys = tx.transaction.message.accountKeys;
   if (accountKeys.length === 0) {
     return null;
@@ -488,56 +883,275 @@ function getFeePayer(tx: ParsedTransactionWithMeta): string | null {
   return null;
 }
 
+/**
+ * Get the addresses that signed a transaction (the fee payer first)
+ */
+function getSigners(tx: ParsedTransactionWithMeta): string[] {
+  return tx.transaction.message.accountKeys
+    .filter(key => typeof key !== 'string' && key.signer)
+    .map(key => key.pubkey.toString());
+}
+
+/**
+ * Collect every account passed to a governance, chat or voter weight plugin
+ * instruction, including inner instructions (CPIs)
+ * @param governanceProgramId - The governance program deployment owning the realm
+ * @param pluginPrograms - Voter weight plugin programs configured for the realm
+ */
+export function getGovernanceInstructionAccounts(
+  tx: ParsedTransactionWithMeta,
+  governanceProgramId: string,
+  pluginPrograms: string[] = []
+): string[] {
+  const accounts = new Set<string>();
+
+  const collect = (instruction: object) => {
+    if (!('programId' in instruction) || !('accounts' in instruction)) {
+      return;
+    }
+    const { programId, accounts: ixAccounts } = instruction as {
+      programId: { toString(): string };
+      accounts: { toString(): string }[];
+    };
+    if (!isGovernanceProgram(programId.toString(), governanceProgramId) && !pluginPrograms.includes(programId.toString())) {
+      return;
+    }
+    for (const account of ixAccounts) {
+      accounts.add(account.toString());
+    }
+  };
+
+  for (const instruction of tx.transaction.message.instructions) {
+    collect(instruction);
+  }
+
+  for (const inner of tx.meta?.innerInstructions || []) {
+    for (const instruction of inner.instructions) {
+      collect(instruction);
+    }
+  }
+
+  return Array.from(accounts);
+}
+
+/**
+ * Realm and wallet context needed to parse transactions
+ */
+export interface ParseContext {
+  walletAddress: string;
+  attributionMode: AttributionMode;
+  realmId: string;
+  membership: RealmMembership;
+  realmData: RealmData;
+  tokenOwnerRecords: GoverningTokenOwnerRecord[];
+}
+
+/**
+ * Identify which governing token mint a transaction acted with
+ * The wallet's own TokenOwnerRecords are the strongest signal, followed by
+ * the governing mint passed directly to the instruction
+ */
+function determineGoverningMint(
+  accounts: string[],
+  context: ParseContext
+): { kind: GoverningTokenKind; mint: string | null } {
+  const referenced = new Set(accounts);
+
+  for (const record of context.tokenOwnerRecords) {
+    if (referenced.has(record.address.toString())) {
+      return { kind: record.kind, mint: record.mint.toString() };
+    }
+  }
+
+  const { communityMint, councilMint } = context.realmData;
+  const usesCommunity = referenced.has(communityMint.toString());
+  const usesCouncil = councilMint !== null && referenced.has(councilMint.toString());
+
+  if (usesCouncil && !usesCommunity) {
+    return { kind: GoverningTokenKind.COUNCIL, mint: councilMint!.toString() };
+  }
+  if (usesCommunity && !usesCouncil) {
+    return { kind: GoverningTokenKind.COMMUNITY, mint: communityMint.toString() };
+  }
+
+  return { kind: GoverningTokenKind.UNKNOWN, mint: null };
+}
+
+/**
+ * Check that a transaction's governance instructions touch the configured realm
+ * @returns null if the transaction belongs to the realm, otherwise the rejection reason
+ */
+function checkRealmInvolvement(
+  accounts: string[],
+  membership: RealmMembership,
+  realmId: string
+): string | null {
+  const otherRealms = new Set<string>();
+  let unresolved = 0;
+
+  for (const account of accounts) {
+    const realm = getAccountRealm(membership, account);
+    if (realm === realmId) {
+      return null;
+    }
+    if (realm) {
+      otherRealms.add(realm);
+    } else if (realm === undefined) {
+      unresolved++;
+    }
+  }
+
+  if (otherRealms.size > 0) {
+    return `Belongs to other realm: ${Array.from(otherRealms).join(' ')}`;
+  }
+
+  if (unresolved > 0) {
+    return `Could not resolve realm for ${unresolved} governance account(s)`;
+  }
+
+  return 'No realm, governance, proposal or TokenOwnerRecord of this realm referenced';
+}
+
+/**
+ * Decide whether a transaction is the wallet's own governance action
+ * @param onBehalfOf - Other owners whose TokenOwnerRecords the transaction acted on
+ * @param actsOnWalletRecord - The transaction acted on one of the wallet's TokenOwnerRecords,
+ * or on a record delegated to the wallet with the wallet signing
+ */
+function isAttributed(
+  tx: ParsedTransactionWithMeta,
+  context: ParseContext,
+  feePayer: string,
+  onBehalfOf: string[],
+  actsOnWalletRecord: boolean
+): boolean {
+  switch (context.attributionMode) {
+    case AttributionMode.SIGNER:
+      return getSigners(tx).includes(context.walletAddress);
+    case AttributionMode.TOKEN_OWNER:
+      // Transactions acting on no TokenOwnerRecord (e.g. executes) stay with whoever paid
+      return actsOnWalletRecord || (feePayer === context.walletAddress && onBehalfOf.length === 0);
+    case AttributionMode.FEE_PAYER:
+      return feePayer === context.walletAddress;
+  }
+}
+
 /**
  * Parse a transaction and extract relevant data if it's a governance action
  * 
  * This function:
  * 1. Verifies the transaction is a governance program interaction
- * 2. Verifies the configured wallet is the fee payer
+ * 2. Verifies the transaction is attributed to the configured wallet (see
+ *    AttributionMode), or was paid by it on behalf of another token owner
  * 3. Extracts transaction type, fees, and rent costs
+ * 4. Verifies the governance instructions touch the configured realm
+ *
+ * @returns null if the transaction is not a governance action of the wallet,
+ * otherwise a tracked, paid-for-others or rejected outcome
  */
 export function parseTransaction(
   signature: string,
   tx: ParsedTransactionWithMeta | null,
-  walletAddress: string,
-  blockTime: number
-): TrackedTransaction | null {
+  blockTime: number,
+  context: ParseContext
+): ParseOutcome | null {
   if (!tx || !tx.meta) {
     return null;
   }
 
-  // Verify the wallet address is the fee payer for this transaction
+  const { walletAddress, attributionMode } = context;
+
   const feePayer = getFeePayer(tx);
-  if (!feePayer || feePayer !== walletAddress) {
-    // This transaction was not paid for by the configured wallet
+  if (!feePayer) {
+    return null;
+  }
+  const paidByWallet = feePayer === walletAddress;
+
+  // Skip transactions the wallet can have no part in before classifying them
+  if (attributionMode === AttributionMode.FEE_PAYER && !paidByWallet) {
+    return null;
+  }
+  if (attributionMode === AttributionMode.SIGNER && !getSigners(tx).includes(walletAddress)) {
     return null;
   }
 
   // Determine transaction type from governance instructions
-  const transactionType = determineTransactionType(tx);
+  const governanceProgramId = context.realmData.programId.toString();
+  const { voterWeightPlugins } = context.realmData;
+  const transactionType = determineTransactionType(tx, governanceProgramId, voterWeightPlugins);
   if (!transactionType) {
     return null;
   }
 
-  // Extract fee
+  const governanceAccounts = getGovernanceInstructionAccounts(tx, governanceProgramId, voterWeightPlugins);
+
+  // Whose governance action this was: the wallet's (directly or as the delegate of a
+  // record it signed for), or another token owner's
+  const referenced = new Set(governanceAccounts);
+  const actedOn = context.tokenOwnerRecords.filter(record => referenced.has(record.address.toString()));
+  const delegator = getSigners(tx).includes(walletAddress)
+    ? actedOn.find(record => record.delegator !== null)?.delegator ?? null
+    : null;
+  const actsOnWalletRecord = actedOn.some(record => record.delegator === null) || delegator !== null;
+  const onBehalfOf = actsOnWalletRecord
+    ? []
+    : getTokenOwners(context.membership, governanceAccounts, context.realmId).filter(owner => owner !== walletAddress);
+
+  const attributed = isAttributed(tx, context, feePayer, onBehalfOf, actsOnWalletRecord);
+  if (!attributed && !(paidByWallet && onBehalfOf.length > 0)) {
+    return null;
+  }
+
+  // Extract fee and split it into base and priority fees
   const transactionFee = tx.meta.fee;
+  const feeBreakdown = getFeeBreakdown(tx);
 
-  // Calculate rent cost
-  const rentCost = calculateRentCost(tx, walletAddress);
+  // Calculate rent paid and recovered (net rent is negative when more was recovered)
+  const rentFlows = calculateRentFlows(tx, feePayer);
+  const rentCost = rentFlows.rentPaid - rentFlows.rentRecovered;
 
-  // Total cost
+  // Net cost
   const totalCost = transactionFee + rentCost;
 
-  return {
+  const governingMint = determineGoverningMint(governanceAccounts, context);
+  const scope = getProposalScope(context.membership, governanceAccounts, context.realmId);
+
+  const transaction: TrackedTransaction = {
     signature,
     blockTime,
     slot: tx.slot,
     transactionType,
+    status: tx.meta.err ? TransactionStatus.FAILED : TransactionStatus.SUCCESS,
+    error: tx.meta.err ? formatTransactionError(tx.meta.err) : null,
+    feePayer,
+    sponsored: !paidByWallet,
+    onBehalfOf,
+    delegator,
+    instructions: getGovernanceInstructions(tx, governanceProgramId, voterWeightPlugins),
     transactionFee,
+    ...feeBreakdown,
+    ...rentFlows,
     rentCost,
     totalCost,
-    dateTime: formatTimestamp(blockTime)
+    dateTime: formatTimestamp(blockTime),
+    governingTokenKind: governingMint.kind,
+    governingMint: governingMint.mint,
+    governance: scope.governance,
+    proposal: scope.proposal,
+    vote: transactionType === TransactionType.VOTE ? getCastVote(tx, governanceProgramId) : null,
+    usd: null
   };
+
+  // Verify the transaction belongs to the configured realm
+  const rejectionReason = checkRealmInvolvement(governanceAccounts, context.membership, context.realmId);
+  if (rejectionReason) {
+    return {
+      status: 'rejected',
+      transaction: { ...transaction, rejectionReason }
+    };
+  }
+
+  return { status: attributed ? 'tracked' : 'paid_for_others', transaction };
 }
 
 /**
@@ -2,27 +2,138 @@
  * TypeScript interfaces and enums for the DAO Reimbursement Tracker
  */
 
+/**
+ * Wallet entry in the config.json `wallets` list
+ */
+export interface WalletConfigEntry {
+  address: string;
+  label?: string;
+}
+
+/**
+ * RPC endpoint entry in the config.json `rpc_endpoints` list
+ */
+export interface RpcEndpointConfigEntry {
+  url: string;
+  rps?: number; // Requests per second limit for this endpoint (defaults to rps)
+  archival?: boolean; // Full-history endpoint, used when another endpoint lacks the history
+}
+
 /**
  * Configuration loaded from config.json
  */
 export interface AppConfig {
-  realm_id: string;
-  wallet_address: string;
-  start_date: string; // MM-DD-YYYY format
-  end_date: string; // MM-DD-YYYY format or empty for current date
+  realm_id?: string; // Single realm (kept for backwards compatibility)
+  realm_ids?: string[]; // Multi-realm: track the wallet(s) across several realms
+  wallet_address?: string; // Single wallet (kept for backwards compatibility)
+  wallets?: (string | WalletConfigEntry)[]; // Batch mode: many wallets, optionally labelled
+  start_date?: string; // MM-DD-YYYY format
+  end_date?: string; // MM-DD-YYYY format or empty for current date
   rps?: number; // Requests per second limit for RPC calls
+  rpc_endpoints?: (string | RpcEndpointConfigEntry)[]; // Extra RPC endpoints, in priority order after RPC_URL
+  rpc_strategy?: string; // How requests are spread over the endpoints: failover or round_robin
+  rpc_method_costs?: Record<string, number>; // Rate limiter tokens per RPC method, e.g. { "getProgramAccounts": 10 }
+  governance_program_id?: string; // Force a specific spl-governance deployment
+  governance_program_ids?: string[]; // Accepted spl-governance deployments (defaults to the shared instance)
+  max_priority_fee_lamports?: number; // Per-transaction cap on reimbursable priority fees
+  cost_split_rule?: string; // How multi-instruction costs are split: primary, even or compute_units
+  usd_price_file?: string; // SOL/USD price series (CSV or JSON) for USD valuation
+  reimburse_failed_transactions?: boolean; // Count failed transactions toward reimbursable totals (default true)
+  attribution_mode?: string; // Which transactions are the wallet's: fee_payer, signer or token_owner
+}
+
+/**
+ * Values from CLI flags that override config.json
+ */
+export interface ConfigOverrides {
+  configPath?: string; // --config <path>
+  outDir?: string; // --out <dir>
+  realm?: string; // --realm
+  wallet?: string; // --wallet
+  from?: string; // --from (MM-DD-YYYY)
+  to?: string; // --to (MM-DD-YYYY)
+  rps?: number; // --rps
+  prices?: string; // --prices <path>
+  attribution?: string; // --attribution <mode>
+}
+
+/**
+ * A wallet to track, with an optional display label
+ */
+export interface WalletTarget {
+  address: string;
+  label: string | null;
+}
+
+/**
+ * An RPC endpoint with its own rate limit
+ */
+export interface RpcEndpoint {
+  url: string;
+  rps: number;
+  archival: boolean;
+}
+
+/**
+ * How requests are spread over the configured RPC endpoints
+ */
+export enum RpcStrategy {
+  FAILOVER = 'failover', // Highest-priority healthy endpoint, the others only when it fails
+  ROUND_ROBIN = 'round_robin' // Rotate through the healthy endpoints
+}
+
+/**
+ * Request statistics of one RPC endpoint over a run
+ */
+export interface EndpointHealth {
+  host: string; // Endpoint host (the URL may carry an API key)
+  archival: boolean;
+  requests: number;
+  errors: number; // Failed requests, including rate limited ones
+  rateLimited: number; // 429 responses
+  historyUnavailable: number; // Requests the endpoint had no history for
+  averageLatencyMs: number | null; // Over successful requests, null if none
+  currentRps: number; // Rate limit at the end of the run, after any slow-down
+}
+
+/**
+ * RPC usage over a run, for the end-of-run summary
+ */
+export interface RpcUsage {
+  throttledMs: number; // Wall-clock time requests spent waiting on rate limiters
+  pausedMs: number; // Part of it spent paused after 429 responses
+  rateLimited: number; // 429 responses received
+  endpoints: EndpointHealth[];
 }
 
 /**
  * Validated configuration with parsed values
  */
 export interface ValidatedConfig {
-  realmId: string;
-  walletAddress: string;
+  realmIds: string[];
+  wallets: WalletTarget[];
+  outDir: string; // Directory CSV reports are written to
   startTimestamp: number; // Unix timestamp in seconds
   endTimestamp: number; // Unix timestamp in seconds
-  rpcUrl: string;
-  rps: number; // Requests per second limit for RPC calls
+  rpcEndpoints: RpcEndpoint[]; // Prioritized, the first is the primary endpoint
+  rpcStrategy: RpcStrategy;
+  rpcMethodCosts: Record<string, number>; // Token cost overrides per RPC method
+  rps: number; // Default requests per second limit for RPC calls
+  governanceProgramOverride: string | null; // Forced governance program, if configured
+  allowedGovernancePrograms: string[]; // Governance programs a realm may be owned by
+  priorityFeeCap: number | null; // Reimbursable priority fee cap per transaction (lamports), null = uncapped
+  costSplitRule: CostSplitRule;
+  priceSeries: PricePoint[] | null; // SOL/USD prices sorted by time, null = no USD valuation
+  reimburseFailed: boolean; // Failed transactions count toward reimbursable totals
+  attributionMode: AttributionMode;
+}
+
+/**
+ * One point of a SOL/USD price series
+ */
+export interface PricePoint {
+  timestamp: number; // Unix timestamp in seconds
+  price: number; // USD per SOL
 }
 
 /**
@@ -54,10 +165,65 @@ export enum TransactionType {
   // Refunds
   REFUND = 'Refund',
   
+  // Voter weight plugin instructions (Voter Stake Registry, NFT voter, gateway, ...)
+  VOTER_WEIGHT_PLUGIN = 'Voter Weight Plugin',
+  
   // Fallback for any unrecognized governance instruction
   OTHER_GOVERNANCE = 'Other Governance'
 }
 
+/**
+ * How a transaction's fee and rent are split between its governance instructions
+ * for the per-category totals
+ */
+export enum CostSplitRule {
+  PRIMARY = 'primary', // Whole cost to the transaction's primary (first) instruction
+  EVEN = 'even', // Equal share per governance instruction
+  COMPUTE_UNITS = 'compute_units' // Weighted by compute units consumed per instruction
+}
+
+/**
+ * Which governance transactions are attributed to a tracked wallet
+ */
+export enum AttributionMode {
+  FEE_PAYER = 'fee_payer', // The wallet paid the fee
+  SIGNER = 'signer', // The wallet signed, whoever paid the fee
+  TOKEN_OWNER = 'token_owner' // The transaction acted on one of the wallet's TokenOwnerRecords
+}
+
+/**
+ * Which costs a reimbursement payment covers
+ */
+export enum ReimbursementBasis {
+  REIMBURSABLE = 'reimbursable', // Base fees plus priority fees up to the cap
+  TOTAL = 'total' // Net cost: every fee plus rent paid minus rent recovered
+}
+
+/**
+ * How treasury payments are matched against tracked costs in the reimbursement ledger
+ */
+export enum LedgerMatchRule {
+  FIFO = 'fifo', // Each payment covers the oldest unpaid costs incurred before it
+  CLAIM_PERIOD = 'claim_period' // Tagged payments cover their claim period first, untagged ones FIFO
+}
+
+/**
+ * Execution result of a tracked transaction
+ */
+export enum TransactionStatus {
+  SUCCESS = 'success',
+  FAILED = 'failed' // Reverted on-chain; the fee was still charged
+}
+
+/**
+ * Which of the realm's governing tokens a transaction acted with
+ */
+export enum GoverningTokenKind {
+  COMMUNITY = 'Community',
+  COUNCIL = 'Council',
+  UNKNOWN = 'Unknown'
+}
+
 /**
  * SPL Governance instruction discriminators (first byte of instruction data)
  * These identify the type of governance action in a transaction
@@ -96,6 +262,116 @@ export enum GovernanceInstructionType {
   PostMessage = 29
 }
 
+/**
+ * SPL Governance account types (first byte of account data)
+ * Used to walk an account back to the realm it belongs to
+ */
+export enum GovernanceAccountType {
+  Uninitialized = 0,
+  RealmV1 = 1,
+  TokenOwnerRecordV1 = 2,
+  GovernanceV1 = 3,
+  ProgramGovernanceV1 = 4,
+  ProposalV1 = 5,
+  SignatoryRecordV1 = 6,
+  VoteRecordV1 = 7,
+  ProposalInstructionV1 = 8,
+  MintGovernanceV1 = 9,
+  TokenGovernanceV1 = 10,
+  RealmConfig = 11,
+  VoteRecordV2 = 12,
+  ProposalTransactionV2 = 13,
+  ProposalV2 = 14,
+  ProgramMetadata = 15,
+  RealmV2 = 16,
+  TokenOwnerRecordV2 = 17,
+  GovernanceV2 = 18,
+  ProgramGovernanceV2 = 19,
+  MintGovernanceV2 = 20,
+  TokenGovernanceV2 = 21,
+  SignatoryRecordV2 = 22,
+  ProposalDeposit = 23,
+  RequiredSignatory = 24
+}
+
+/**
+ * Rent moved by one account in a transaction
+ */
+export interface RentEvent {
+  account: string;
+  lamports: number; // positive = rent paid to create the account, negative = recovered on close
+}
+
+/**
+ * Recovered rent matched to the transaction that originally paid it
+ */
+export interface RentMatch {
+  account: string;
+  lamports: number; // Rent recovered
+  recoveredIn: string; // Signature of the refunding transaction
+  paidIn: string | null; // Signature of the transaction that paid the rent, null if outside the report
+}
+
+/**
+ * A governance or chat instruction within a transaction
+ */
+export interface GovernanceInstruction {
+  name: string; // e.g. "CreateProposal"
+  transactionType: TransactionType;
+  programId: string;
+  outerIndex: number; // Position of the top-level instruction (0-based)
+  innerIndex: number | null; // Position among that instruction's CPIs, null for top-level
+  computeUnits: number | null; // Consumed by this instruction, null if not in the logs
+}
+
+/**
+ * Share of a transaction's cost attributed to one category
+ */
+export interface CostAllocation {
+  transactionType: TransactionType;
+  fee: number; // in lamports
+  rentPaid: number; // in lamports
+  rentRecovered: number; // in lamports
+}
+
+/**
+ * USD value of a transaction at its block time
+ */
+export interface UsdValuation {
+  solPrice: number | null; // USD per SOL, null when the block time is outside the price data
+  fee: number | null; // USD, null when unpriced
+  rent: number | null; // USD, net rent
+  total: number | null; // USD, net cost
+}
+
+/**
+ * Vote cast on a proposal
+ */
+export enum VoteKind {
+  APPROVE = 'Approve',
+  DENY = 'Deny',
+  ABSTAIN = 'Abstain',
+  VETO = 'Veto'
+}
+
+/**
+ * Rank and weight given to one proposal option in an Approve vote
+ */
+export interface VoteChoice {
+  rank: number;
+  weightPercentage: number;
+}
+
+/**
+ * Vote decoded from a CastVote instruction and its VoteRecord
+ */
+export interface VoteDetails {
+  voteRecord: string | null; // VoteRecord account created by the vote
+  kind: VoteKind | null; // null when neither the instruction nor the VoteRecord could be decoded
+  choices: VoteChoice[]; // One entry per proposal option, Approve votes only
+  voterWeight: string | null; // Raw governing token amount (u64), null until read from the VoteRecord
+}
+
 /**
  * Represents a single tracked governance transaction
  */
@@ -103,26 +379,132 @@ export interface TrackedTransaction {
   signature: string;
   blockTime: number; // Unix timestamp
   slot: number;
-  transactionType: TransactionType;
-  transactionFee: number; // in lamports
-  rentCost: number; // in lamports (calculated from balance changes)
-  totalCost: number; // in lamports
+  transactionType: TransactionType; // Type of the primary (first) governance instruction
+  status: TransactionStatus;
+  error: string | null; // On-chain error of a failed transaction
+  feePayer: string; // Account that paid the fee (and usually the rent)
+  sponsored: boolean; // The fee was paid by an account other than the tracked wallet
+  onBehalfOf: string[]; // Owners of the TokenOwnerRecords acted on, when none is the wallet's
+  delegator: string | null; // Owner whose delegated TokenOwnerRecord (voting power) the wallet acted through
+  instructions: GovernanceInstruction[]; // Every governance instruction, in execution order
+  transactionFee: number; // in lamports (base fee + priority fee)
+  baseFee: number; // in lamports (signature fees)
+  priorityFee: number; // in lamports (compute unit price x compute unit limit)
+  computeUnitPrice: number | null; // micro-lamports per compute unit, null if not set
+  computeUnitLimit: number | null; // requested compute units, null if not set
+  computeUnitsConsumed: number | null; // null for transactions predating the field
+  rentPaid: number; // in lamports deposited into new accounts
+  rentRecovered: number; // in lamports returned from closed accounts
+  rentEvents: RentEvent[]; // Accounts created or closed, when attributable to the wallet
+  rentCost: number; // in lamports, net rent (rentPaid - rentRecovered, negative for net refunds)
+  totalCost: number; // in lamports, net cost (transactionFee + rentCost)
   dateTime: string; // Human readable date/time
+  governingTokenKind: GoverningTokenKind;
+  governingMint: string | null; // Governing token mint used, if identifiable
+  governance: string | null; // Governance account acted on, if any
+  proposal: string | null; // Proposal acted on, if any
+  vote: VoteDetails | null; // Set for transactions that cast a vote
+  usd: UsdValuation | null; // Set when a price series is loaded
+}
+
+/**
+ * A governance transaction of the wallet that was excluded from the
+ * report because it does not touch the configured realm
+ */
+export interface RejectedTransaction extends TrackedTransaction {
+  rejectionReason: string;
 }
 
+/**
+ * Result of parsing a single transaction against the configured realm
+ */
+export type ParseOutcome =
+  | { status: 'tracked'; transaction: TrackedTransaction }
+  | { status: 'paid_for_others'; transaction: TrackedTransaction }
+  | { status: 'rejected'; transaction: RejectedTransaction };
+
 /**
  * Summary statistics for each transaction type
  */
-export interface CategorySummary {
+export interface FeeSummary {
   count: number;
   totalFees: number; // in lamports
 }
 
+/**
+ * Summary statistics for a category, with its rent ledger
+ */
+export interface CategorySummary extends FeeSummary {
+  // totalFees is the net cost: fees + rent paid - rent recovered
+  rentPaid: number; // in lamports
+  rentRecovered: number; // in lamports
+  totalUsd: number | null; // Net cost in USD over priced transactions, null without a price series
+}
+
+/**
+ * USD totals over the priced transactions
+ */
+export interface UsdTotals {
+  fees: number;
+  rent: number;
+  total: number;
+  pricedCount: number;
+  unpricedCount: number; // Transactions outside the price data (not in the USD totals)
+}
+
+/**
+ * Proposal account fields decoded for reports
+ */
+export interface ProposalMetadata {
+  address: string;
+  governance: string;
+  name: string;
+  descriptionLink: string;
+  state: string; // e.g. "Voting", "Succeeded", "Executing With Errors"
+  draftAt: number; // Unix timestamps
+  signingOffAt: number | null;
+  votingAt: number | null;
+  votingCompletedAt: number | null;
+  executingAt: number | null;
+  closedAt: number | null;
+}
+
+/**
+ * Cost of the transactions that acted on one proposal
+ */
+export interface ProposalRollup {
+  proposal: string | null; // null for governance-level actions with no proposal
+  metadata: ProposalMetadata | null; // null when not decoded (no proposal, or account closed)
+  count: number;
+  totalFees: number; // in lamports, net cost
+}
+
+/**
+ * Cost of the transactions that acted on one governance and its proposals
+ */
+export interface GovernanceRollup {
+  governance: string | null; // null for realm-level actions (deposits, delegation, ...)
+  count: number;
+  totalFees: number; // in lamports, net cost
+  proposals: ProposalRollup[]; // Highest cost first
+}
+
+/**
+ * Hierarchical cost roll-up: realm -> governance -> proposal
+ */
+export interface RealmRollup {
+  realmId: string | null;
+  count: number;
+  totalFees: number; // in lamports, net cost
+  governances: GovernanceRollup[]; // Highest cost first
+}
+
 /**
  * Overall tracking results
  */
 export interface TrackingResults {
   transactions: TrackedTransaction[];
+  rejected: RejectedTransaction[];
   votes: CategorySummary;
   proposals: CategorySummary;
   comments: CategorySummary;
@@ -134,9 +516,94 @@ export interface TrackingResults {
   proposalInstructions: CategorySummary;
   governanceAdmin: CategorySummary;
   refunds: CategorySummary;
+  voterWeightPlugins: CategorySummary;
   otherGovernance: CategorySummary;
+  communityToken: CategorySummary;
+  councilToken: CategorySummary;
+  unknownToken: CategorySummary;
+  delegatedVotes: CategorySummary; // Votes cast with delegated voting power, included in votes
+  failed: CategorySummary; // Failed transactions, kept out of the categories above
+  reimburseFailed: boolean; // Whether failed transactions count toward the totals below
+  sponsored: CategorySummary; // Transactions whose fee another account paid, kept out of every total
+  paidForOthers: TrackedTransaction[]; // Transactions the wallet paid for other token owners' actions
+  attributionMode: AttributionMode;
+  baseFees: FeeSummary;
+  priorityFees: FeeSummary; // count = transactions that paid a priority fee
+  reimbursableFees: number; // in lamports (base fees + priority fees up to the cap)
+  priorityFeeCap: number | null; // in lamports per transaction, null = uncapped
+  costSplitRule: CostSplitRule; // How category totals split multi-instruction transactions
+  usdTotals: UsdTotals | null; // null without a price series
+  computeUnitsConsumed: number;
+  averageComputeUnitPrice: number | null; // micro-lamports, over transactions that set a price
+  rentPaid: number; // in lamports
+  rentRecovered: number; // in lamports
+  rentMatches: RentMatch[]; // Recovered rent matched to the transaction that paid it
+  costRollup: RealmRollup;
+  proposalMetadata: Map<string, ProposalMetadata>; // Decoded proposals by address
   totalCount: number;
   totalFees: number; // in lamports
+  incomplete: boolean; // true for partial results from an interrupted run
+}
+
+/**
+ * Transfer to a tracked wallet from a native treasury, made by an executed proposal
+ */
+export interface ReimbursementPayment {
+  signature: string;
+  blockTime: number;
+  wallet: string;
+  treasury: string;
+  proposal: string | null;
+  proposalName: string | null;
+  claimPeriod: { startTimestamp: number; endTimestamp: number } | null; // From a [claim ...] tag
+  mint: string | null; // null for SOL
+  amount: string; // In lamports or the mint's base units
+  decimals: number; // 9 for SOL
+  lamports: number | null; // SOL value, null for a token payment that cannot be priced
+  applied: number; // Lamports matched to tracked costs
+}
+
+/**
+ * Reimbursement status of one tracked transaction
+ */
+export interface LedgerEntry {
+  signature: string;
+  blockTime: number;
+  transactionType: TransactionType;
+  eligible: number; // in lamports
+  paid: number; // in lamports
+  outstanding: number; // in lamports
+  paidBy: string[]; // Signatures of the payments covering it
+}
+
+/**
+ * Tracked costs matched against the payments already made
+ */
+export interface ReimbursementLedger {
+  matchRule: LedgerMatchRule;
+  entries: LedgerEntry[];
+  payments: ReimbursementPayment[];
+  eligible: number; // in lamports
+  paid: number; // in lamports (payments applied to costs)
+  outstanding: number; // in lamports
+  overpaid: number; // in lamports (payments exceeding the costs they could cover)
+  unvaluedPayments: number; // Token payments without a SOL value (no price data)
+}
+
+/**
+ * Tracking results for one wallet in a batch run
+ */
+export interface WalletResults {
+  wallet: WalletTarget;
+  results: TrackingResults;
+}
+
+/**
+ * Tracking results for one realm in a multi-realm run
+ */
+export interface RealmResults {
+  realmId: string;
+  results: TrackingResults;
 }
 
 /**
@@ -168,8 +635,34 @@ export interface CsvRow {
   'Date/Time': string;
   'Block/Slot': number;
   'Transaction Type': string;
+  'Status': string;
+  'Error': string;
+  'Paid By': string;
+  'On Behalf Of': string;
+  'Instructions': string;
+  'Governing Token': string;
+  'Governance': string;
+  'Proposal': string;
+  'Proposal Name': string;
+  'Vote': string;
+  'Vote Choices': string;
+  'Voter Weight': string;
+  'Delegator': string;
   'Transaction Fee (SOL)': string;
-  'Rent Cost (SOL)': string;
+  'Base Fee (SOL)': string;
+  'Priority Fee (SOL)': string;
+  'Compute Unit Price (micro-lamports)': string;
+  'Compute Units Consumed': string;
+  'Reimbursable Fee (SOL)': string;
+  'Rent Paid (SOL)': string;
+  'Rent Recovered (SOL)': string;
+  'Net Rent (SOL)': string;
   'Total Cost (SOL)': string;
+  'SOL/USD Price': string;
+  'Transaction Fee (USD)': string;
+  'Net Rent (USD)': string;
+  'Total Cost (USD)': string;
+  'USD Note': string;
+  'Rent Paid In': string;
 }
 
@@ -0,0 +1,49 @@
+/**
+ * Base58 decoding for instruction data
+ *
+ * getParsedTransaction returns instructions the RPC cannot parse (governance,
+ * ComputeBudget) as PartiallyDecodedInstruction with base58-encoded data.
+ */
+
+const ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+const ALPHABET_MAP = new Map<string, number>(
+  Array.from(ALPHABET).map((char, index) => [char, index])
+);
+
+/**
+ * Decode a base58 string
+ * @returns Decoded bytes, or null if the string contains invalid characters
+ */
+export function decodeBase58(encoded: string): Buffer | null {
+  const bytes: number[] = [];
+
+  for (const char of encoded) {
+    const value = ALPHABET_MAP.get(char);
+    if (value === undefined) {
+      return null;
+    }
+
+    // bytes holds the number little-endian; multiply by 58 and add the digit
+    let carry = value;
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  // Each leading '1' encodes a leading zero byte
+  for (const char of encoded) {
+    if (char !== '1') {
+      break;
+    }
+    bytes.push(0);
+  }
+
+  return Buffer.from(bytes.reverse());
+}
@@ -3,23 +3,81 @@
  */
 
 import { createObjectCsvWriter } from 'csv-writer';
+import * as fs from 'fs';
 import * as path from 'path';
-import { TrackedTransaction, TrackingResults, CsvRow, TransactionType } from '../types';
-import { lamportsToSol } from '../services/transaction-parser';
+import {
+  TrackedTransaction,
+  TrackingResults,
+  CsvRow,
+  TransactionType,
+  RejectedTransaction,
+  GoverningTokenKind,
+  WalletResults,
+  RealmResults,
+  CategorySummary,
+  RentMatch,
+  RealmRollup,
+  GovernanceRollup,
+  ProposalRollup,
+  ProposalMetadata,
+  VoteChoice,
+  GovernanceInstruction,
+  CostSplitRule,
+  PricePoint,
+  UsdTotals,
+  CostAllocation,
+  ReimbursementLedger,
+  TransactionStatus,
+  AttributionMode
+} from '../types';
+import { lamportsToSol, getReimbursableFee, allocateCost } from '../services/transaction-parser';
+import { valueTransaction, lamportsToUsd } from '../services/pricing';
 import { logSuccess, logInfo } from './logger';
+import { formatTimestamp } from './date-utils';
 import { LAMPORTS_PER_SOL } from '../constants';
 
+/**
+ * First summary line of reports built from an interrupted run
+ */
+const INCOMPLETE_NOTICE = 'INCOMPLETE REPORT - run was interrupted; re-run with the same parameters to resume';
+
+/**
+ * Resolve a report's filename, marking partial reports with a -partial suffix
+ * A complete report replaces any partial report left by an earlier interrupted run
+ */
+function reportFile(outDir: string, basename: string, incomplete: boolean): { filename: string; filepath: string } {
+  const partialPath = path.join(outDir, `${basename}-partial.csv`);
+  if (incomplete) {
+    return { filename: `${basename}-partial.csv`, filepath: partialPath };
+  }
+
+  fs.rmSync(partialPath, { force: true });
+  return { filename: `${basename}.csv`, filepath: path.join(outDir, `${basename}.csv`) };
+}
+
 /**
  * Generate CSV file with all tracked transactions
+ * @param outDir - Directory to write the report to
  * @param walletAddress - Wallet address (used for filename)
  * @param results - Tracking results with all transactions and summaries
+ * @param realmId - Realm public key, appended to the filename in multi-realm runs
  */
 export async function generateCsvReport(
+  outDir: string,
   walletAddress: string,
-  results: TrackingResults
+  results: TrackingResults,
+  realmId?: string
 ): Promise<string> {
-  const filename = `${walletAddress}.csv`;
-  const filepath = path.join(process.cwd(), filename);
+  const basename = realmId ? `${walletAddress}-${realmId}` : walletAddress;
+  const { filename, filepath } = reportFile(outDir, basename, results.incomplete);
+
+  // Transactions that originally paid the rent each transaction recovered
+  const rentPaidIn = new Map<string, string[]>();
+  for (const match of results.rentMatches) {
+    const paid = rentPaidIn.get(match.recoveredIn) || [];
+    paid.push(match.paidIn ?? 'before report period');
+    rentPaidIn.set(match.recoveredIn, paid);
+  }
 
   // Prepare CSV rows
   const rows: CsvRow[] = results.transactions.map(tx => ({
@@ -27,9 +85,35 @@ export async function generateCsvReport(
     'Date/Time': tx.dateTime,
     'Block/Slot': tx.slot,
     'Transaction Type': tx.transactionType,
+    'Status': tx.status,
+    'Error': tx.error ?? '',
+    'Paid By': tx.feePayer,
+    'On Behalf Of': tx.onBehalfOf.join(' '),
+    'Instructions': formatInstructions(tx.instructions),
+    'Governing Token': tx.governingTokenKind,
+    'Governance': tx.governance || '',
+    'Proposal': tx.proposal || '',
+    'Proposal Name': (tx.proposal && results.proposalMetadata.get(tx.proposal)?.name) || '',
+    'Vote': tx.vote?.kind ?? '',
+    'Vote Choices': formatVoteChoices(tx.vote?.choices ?? []),
+    'Voter Weight': tx.vote?.voterWeight ?? '',
+    'Delegator': tx.delegator ?? '',
     'Transaction Fee (SOL)': lamportsToSol(tx.transactionFee),
-    'Rent Cost (SOL)': lamportsToSol(tx.rentCost),
-    'Total Cost (SOL)': lamportsToSol(tx.totalCost)
+    'Base Fee (SOL)': lamportsToSol(tx.baseFee),
+    'Priority Fee (SOL)': lamportsToSol(tx.priorityFee),
+    'Compute Unit Price (micro-lamports)': tx.computeUnitPrice?.toString() ?? '',
+    'Compute Units Consumed': tx.computeUnitsConsumed?.toString() ?? '',
+    'Reimbursable Fee (SOL)': lamportsToSol(getReimbursableFee(tx, results.priorityFeeCap)),
+    'Rent Paid (SOL)': lamportsToSol(tx.rentPaid),
+    'Rent Recovered (SOL)': lamportsToSol(tx.rentRecovered),
+    'Net Rent (SOL)': lamportsToSol(tx.rentCost),
+    'Total Cost (SOL)': lamportsToSol(tx.totalCost),
+    'SOL/USD Price': tx.usd?.solPrice?.toFixed(4) ?? '',
+    'Transaction Fee (USD)': formatOptionalUsd(tx.usd?.fee),
+    'Net Rent (USD)': formatOptionalUsd(tx.usd?.rent),
+    'Total Cost (USD)': formatOptionalUsd(tx.usd?.total),
+    'USD Note': tx.usd && tx.usd.solPrice === null ? 'outside price data' : '',
+    'Rent Paid In': (rentPaidIn.get(tx.signature) || []).join(' ')
   }));
 
   // Sort by date (oldest first for the report)
@@ -39,45 +123,252 @@ export async function generateCsvReport(
     return dateA - dateB;
   });
 
+  // USD columns are only written when a price series was loaded
+  const usdColumns = new Set(['SOL/USD Price', 'Transaction Fee (USD)', 'Net Rent (USD)', 'Total Cost (USD)', 'USD Note']);
+
   // Create CSV writer
   const csvWriter = createObjectCsvWriter({
     path: filepath,
-    header: [
+    header: ([
       { id: 'Transaction Signature', title: 'Transaction Signature' },
       { id: 'Date/Time', title: 'Date/Time' },
       { id: 'Block/Slot', title: 'Block/Slot' },
       { id: 'Transaction Type', title: 'Transaction Type' },
+      { id: 'Status', title: 'Status' },
+      { id: 'Error', title: 'Error' },
+      { id: 'Paid By', title: 'Paid By' },
+      { id: 'On Behalf Of', title: 'On Behalf Of' },
+      { id: 'Instructions', title: 'Instructions' },
+      { id: 'Governing Token', title: 'Governing Token' },
+      { id: 'Governance', title: 'Governance' },
+      { id: 'Proposal', title: 'Proposal' },
+      { id: 'Proposal Name', title: 'Proposal Name' },
+      { id: 'Vote', title: 'Vote' },
+      { id: 'Vote Choices', title: 'Vote Choices' },
+      { id: 'Voter Weight', title: 'Voter Weight' },
+      { id: 'Delegator', title: 'Delegator' },
       { id: 'Transaction Fee (SOL)', title: 'Transaction Fee (SOL)' },
-      { id: 'Rent Cost (SOL)', title: 'Rent Cost (SOL)' },
-      { id: 'Total Cost (SOL)', title: 'Total Cost (SOL)' }
-    ]
+      { id: 'Base Fee (SOL)', title: 'Base Fee (SOL)' },
+      { id: 'Priority Fee (SOL)', title: 'Priority Fee (SOL)' },
+      { id: 'Compute Unit Price (micro-lamports)', title: 'Compute Unit Price (micro-lamports)' },
+      { id: 'Compute Units Consumed', title: 'Compute Units Consumed' },
+      { id: 'Reimbursable Fee (SOL)', title: 'Reimbursable Fee (SOL)' },
+      { id: 'Rent Paid (SOL)', title: 'Rent Paid (SOL)' },
+      { id: 'Rent Recovered (SOL)', title: 'Rent Recovered (SOL)' },
+      { id: 'Net Rent (SOL)', title: 'Net Rent (SOL)' },
+      { id: 'Total Cost (SOL)', title: 'Total Cost (SOL)' },
+      { id: 'SOL/USD Price', title: 'SOL/USD Price' },
+      { id: 'Transaction Fee (USD)', title: 'Transaction Fee (USD)' },
+      { id: 'Net Rent (USD)', title: 'Net Rent (USD)' },
+      { id: 'Total Cost (USD)', title: 'Total Cost (USD)' },
+      { id: 'USD Note', title: 'USD Note' },
+      { id: 'Rent Paid In', title: 'Rent Paid In' }
+    ]).filter(column => results.usdTotals !== null || !usdColumns.has(column.id))
   });
 
   // Write transaction rows
   await csvWriter.writeRecords(rows);
 
   // Append summary section using fs
-  const fs = await import('fs');
   const summaryLines = [
+    ...(results.incomplete ? ['', INCOMPLETE_NOTICE] : []),
     '',
     '--- SUMMARY ---',
     '',
-    `Votes Casted,${results.votes.count},${formatSolAmount(results.votes.totalFees)} SOL`,
-    `Proposals Created,${results.proposals.count},${formatSolAmount(results.proposals.totalFees)} SOL`,
-    `Comments Posted,${results.comments.count},${formatSolAmount(results.comments.totalFees)} SOL`,
-    `Token Deposits,${results.tokenDeposits.count},${formatSolAmount(results.tokenDeposits.totalFees)} SOL`,
-    `Token Withdrawals,${results.tokenWithdrawals.count},${formatSolAmount(results.tokenWithdrawals.totalFees)} SOL`,
-    `Delegations,${results.delegates.count},${formatSolAmount(results.delegates.totalFees)} SOL`,
-    `Execute Transactions,${results.executes.count},${formatSolAmount(results.executes.totalFees)} SOL`,
-    `Signatory Actions,${results.signatories.count},${formatSolAmount(results.signatories.totalFees)} SOL`,
-    `Proposal Instructions,${results.proposalInstructions.count},${formatSolAmount(results.proposalInstructions.totalFees)} SOL`,
-    `Governance Admin,${results.governanceAdmin.count},${formatSolAmount(results.governanceAdmin.totalFees)} SOL`,
-    `Refunds,${results.refunds.count},${formatSolAmount(results.refunds.totalFees)} SOL`,
-    `Other Governance,${results.otherGovernance.count},${formatSolAmount(results.otherGovernance.totalFees)} SOL`,
+    `Votes Casted,${results.votes.count},${formatSolAmount(results.votes.totalFees)} SOL${usdCell(results.votes.totalUsd)}`,
+    `Delegated Votes (included above),${results.delegatedVotes.count},${formatSolAmount(results.delegatedVotes.totalFees)} SOL${usdCell(results.delegatedVotes.totalUsd)}`,
+    `Proposals Created,${results.proposals.count},${formatSolAmount(results.proposals.totalFees)} SOL${usdCell(results.proposals.totalUsd)}`,
+    `Comments Posted,${results.comments.count},${formatSolAmount(results.comments.totalFees)} SOL${usdCell(results.comments.totalUsd)}`,
+    `Token Deposits,${results.tokenDeposits.count},${formatSolAmount(results.tokenDeposits.totalFees)} SOL${usdCell(results.tokenDeposits.totalUsd)}`,
+    `Token Withdrawals,${results.tokenWithdrawals.count},${formatSolAmount(results.tokenWithdrawals.totalFees)} SOL${usdCell(results.tokenWithdrawals.totalUsd)}`,
+    `Delegations,${results.delegates.count},${formatSolAmount(results.delegates.totalFees)} SOL${usdCell(results.delegates.totalUsd)}`,
+    `Execute Transactions,${results.executes.count},${formatSolAmount(results.executes.totalFees)} SOL${usdCell(results.executes.totalUsd)}`,
+    `Signatory Actions,${results.signatories.count},${formatSolAmount(results.signatories.totalFees)} SOL${usdCell(results.signatories.totalUsd)}`,
+    `Proposal Instructions,${results.proposalInstructions.count},${formatSolAmount(results.proposalInstructions.totalFees)} SOL${usdCell(results.proposalInstructions.totalUsd)}`,
+    `Governance Admin,${results.governanceAdmin.count},${formatSolAmount(results.governanceAdmin.totalFees)} SOL${usdCell(results.governanceAdmin.totalUsd)}`,
+    `Refunds,${results.refunds.count},${formatSolAmount(results.refunds.totalFees)} SOL${usdCell(results.refunds.totalUsd)}`,
+    `Voter Weight Plugins,${results.voterWeightPlugins.count},${formatSolAmount(results.voterWeightPlugins.totalFees)} SOL${usdCell(results.voterWeightPlugins.totalUsd)}`,
+    `Other Governance,${results.otherGovernance.count},${formatSolAmount(results.otherGovernance.totalFees)} SOL${usdCell(results.otherGovernance.totalUsd)}`,
+    `Failed Transactions${results.reimburseFailed ? '' : ' (not reimbursed)'},${results.failed.count},${formatSolAmount(results.failed.totalFees)} SOL${usdCell(results.failed.totalUsd)}`,
+    `Paid by Others (not counted),${results.sponsored.count},${formatSolAmount(results.sponsored.totalFees)} SOL${usdCell(results.sponsored.totalUsd)}`,
     '',
-    `Total DAO Interactions,${results.totalCount},${formatSolAmount(results.totalFees)} SOL`
+    `Community Token,${results.communityToken.count},${formatSolAmount(results.communityToken.totalFees)} SOL${usdCell(results.communityToken.totalUsd)}`,
+    `Council Token,${results.councilToken.count},${formatSolAmount(results.councilToken.totalFees)} SOL${usdCell(results.councilToken.totalUsd)}`,
+    `Unknown Token,${results.unknownToken.count},${formatSolAmount(results.unknownToken.totalFees)} SOL${usdCell(results.unknownToken.totalUsd)}`,
+    '',
+    `Base Fees,${results.baseFees.count},${formatSolAmount(results.baseFees.totalFees)} SOL`,
+    `Priority Fees,${results.priorityFees.count},${formatSolAmount(results.priorityFees.totalFees)} SOL`,
+    `Reimbursable Fees${results.priorityFeeCap !== null ? ` (priority capped at ${results.priorityFeeCap} lamports)` : ''},${results.totalCount},${formatSolAmount(results.reimbursableFees)} SOL`,
+    `Compute Units Consumed,${results.computeUnitsConsumed}`,
+    `Average Compute Unit Price (micro-lamports),${results.averageComputeUnitPrice ?? ''}`,
+    `Cost Split Rule,${results.costSplitRule}`,
+    `Attribution Mode,${results.attributionMode}`,
+    '',
+    `Total DAO Interactions,${results.totalCount},${formatSolAmount(results.totalFees)} SOL${usdCell(results.usdTotals?.total ?? null)}`
   ];
 
+  // USD valuation coverage; transactions outside the price data are not in the USD totals
+  if (results.usdTotals) {
+    const { fees, rent, pricedCount, unpricedCount } = results.usdTotals;
+    summaryLines.push(
+      '',
+      `Transaction Fees (USD),${pricedCount},${formatUsdAmount(fees)} USD`,
+      `Net Rent (USD),${pricedCount},${formatUsdAmount(rent)} USD`,
+      `Outside price data (not valued),${unpricedCount}`
+    );
+  }
+
+  // Signed rent ledger per category; refunds reduce the net cost
+  if (results.rentPaid > 0 || results.rentRecovered > 0) {
+    const categories: [string, CategorySummary][] = [
+      ['Votes Casted', results.votes],
+      ['Proposals Created', results.proposals],
+      ['Comments Posted', results.comments],
+      ['Token Deposits', results.tokenDeposits],
+      ['Token Withdrawals', results.tokenWithdrawals],
+      ['Delegations', results.delegates],
+      ['Execute Transactions', results.executes],
+      ['Signatory Actions', results.signatories],
+      ['Proposal Instructions', results.proposalInstructions],
+      ['Governance Admin', results.governanceAdmin],
+      ['Refunds', results.refunds],
+      ['Voter Weight Plugins', results.voterWeightPlugins],
+      ['Other Governance', results.otherGovernance]
+    ];
+    const ledgerLine = (label: string, rentPaid: number, rentRecovered: number, netCost: number) =>
+      `${label},${formatSolAmount(rentPaid)},${formatSolAmount(rentRecovered)},${formatSolAmount(rentPaid - rentRecovered)},${formatSolAmount(netCost)}`;
+
+    const matched = results.rentMatches.filter(match => match.paidIn !== null);
+    const unmatched = results.rentMatches.filter(match => match.paidIn === null);
+    const sumLamports = (matches: RentMatch[]) => matches.reduce((sum, match) => sum + match.lamports, 0);
+
+    summaryLines.push(
+      '',
+      '--- RENT LEDGER ---',
+      '',
+      'Category,Rent Paid (SOL),Rent Recovered (SOL),Net Rent (SOL),Net Cost (SOL)',
+      ...categories
+        .filter(([, summary]) => summary.rentPaid > 0 || summary.rentRecovered > 0)
+        .map(([label, summary]) => ledgerLine(label, summary.rentPaid, summary.rentRecovered, summary.totalFees)),
+      ledgerLine('Total', results.rentPaid, results.rentRecovered, results.totalFees),
+      '',
+      `Recovered rent matched to the paying transaction,${matched.length},${formatSolAmount(sumLamports(matched))} SOL`,
+      `Recovered rent paid before the report period,${unmatched.length},${formatSolAmount(sumLamports(unmatched))} SOL`
+    );
+  }
+
+  // Hierarchical cost roll-up: realm -> governance -> proposal
+  const rollup = results.costRollup;
+  if (rollup.count > 0) {
+    summaryLines.push(
+      '',
+      '--- COST BY GOVERNANCE / PROPOSAL ---',
+      '',
+      'Realm,Governance,Proposal,Transactions,Total Cost (SOL)',
+      `${rollup.realmId || ''},,,${rollup.count},${formatSolAmount(rollup.totalFees)}`
+    );
+    for (const governance of rollup.governances) {
+      const governanceLabel = governance.governance || '(realm-level)';
+      summaryLines.push(
+        `${rollup.realmId || ''},${governanceLabel},,${governance.count},${formatSolAmount(governance.totalFees)}`
+      );
+      for (const proposal of governance.proposals) {
+        summaryLines.push(
+          `${rollup.realmId || ''},${governanceLabel},${proposal.proposal || '(no proposal)'},${proposal.count},${formatSolAmount(proposal.totalFees)}`
+        );
+      }
+    }
+  }
+
+  // Per-proposal spend with the decoded proposal name and state
+  const proposalRollups = rollup.governances
+    .flatMap(governance => governance.proposals)
+    .filter(proposal => proposal.proposal !== null)
+    .sort((a, b) => b.totalFees - a.totalFees);
+  if (proposalRollups.length > 0) {
+    const optionalTime = (timestamp: number | null) => timestamp !== null ? formatTimestamp(timestamp) : '';
+
+    summaryLines.push(
+      '',
+      '--- PROPOSALS ---',
+      '',
+      'Proposal,Name,State,Governance,Voting Started,Voting Completed,Description Link,Transactions,Total Cost (SOL)',
+      ...proposalRollups.map(({ proposal, metadata, count, totalFees }) => [
+        proposal,
+        csvText(metadata?.name ?? ''),
+        metadata?.state ?? 'Unknown',
+        metadata?.governance ?? '',
+        optionalTime(metadata?.votingAt ?? null),
+        optionalTime(metadata?.votingCompletedAt ?? null),
+        csvText(metadata?.descriptionLink ?? ''),
+        count,
+        formatSolAmount(totalFees)
+      ].join(','))
+    );
+  }
+
+  // Votes cast as governance delegate, per member whose voting power was used
+  const delegatedVotes = results.transactions
+    .filter(tx => !tx.sponsored && tx.status !== TransactionStatus.FAILED && isDelegatedVote(tx));
+  if (delegatedVotes.length > 0) {
+    const byDelegator = new Map<string, TrackedTransaction[]>();
+    for (const tx of delegatedVotes) {
+      byDelegator.set(tx.delegator!, [...(byDelegator.get(tx.delegator!) || []), tx]);
+    }
+
+    summaryLines.push(
+      '',
+      '--- DELEGATED VOTES ---',
+      '',
+      'Delegator,Votes,Total Cost (SOL)',
+      ...Array.from(byDelegator, ([delegator, txs]) =>
+        `${delegator},${txs.length},${formatSolAmount(txs.reduce((sum, tx) => sum + tx.totalCost, 0))}`
+      )
+    );
+  }
+
+  // Costs the wallet paid for other token owners' governance actions
+  if (results.paidForOthers.length > 0) {
+    const byOwner = new Map<string, TrackedTransaction[]>();
+    for (const tx of results.paidForOthers) {
+      const owner = tx.onBehalfOf.join(' ');
+      byOwner.set(owner, [...(byOwner.get(owner) || []), tx]);
+    }
+
+    summaryLines.push(
+      '',
+      '--- PAID FOR OTHERS ---',
+      '',
+      'Transaction Signature,Date/Time,Transaction Type,On Behalf Of,Attributed to Wallet,Total Cost (SOL)',
+      ...results.paidForOthers.map(tx => [
+        tx.signature,
+        tx.dateTime,
+        tx.transactionType,
+        tx.onBehalfOf.join(' '),
+        results.transactions.includes(tx) ? 'yes' : 'no',
+        lamportsToSol(tx.totalCost)
+      ].join(',')),
+      '',
+      'On Behalf Of,Transactions,Total Cost (SOL)',
+      ...Array.from(byOwner, ([owner, txs]) =>
+        `${owner},${txs.length},${formatSolAmount(txs.reduce((sum, tx) => sum + tx.totalCost, 0))}`
+      )
+    );
+  }
+
+  // Rejected transactions are listed separately and never count toward the totals
+  if (results.rejected.length > 0) {
+    summaryLines.push(
+      '',
+      '--- REJECTED (NOT IN REALM) ---',
+      '',
+      'Transaction Signature,Date/Time,Transaction Type,Total Cost (SOL),Reason',
+      ...results.rejected.map(tx =>
+        `${tx.signature},${tx.dateTime},${tx.transactionType},${lamportsToSol(tx.totalCost)},"${tx.rejectionReason}"`
+      )
+    );
+  }
+
   fs.appendFileSync(filepath, '\n' + summaryLines.join('\n'));
 
   logSuccess(`CSV report generated: ${filename}`);
@@ -86,6 +377,284 @@ export async function generateCsvReport(
   return filepath;
 }
 
+/**
+ * Generate a cross-realm overview CSV for one wallet in a multi-realm run
+ * @param outDir - Directory to write the report to
+ * @param walletAddress - Wallet address (used for filename)
+ * @param realmResults - Tracking results per realm
+ * @param rejected - Governance transactions that belong to none of the realms
+ */
+export async function generateRealmOverviewReport(
+  outDir: string,
+  walletAddress: string,
+  realmResults: RealmResults[],
+  rejected: RejectedTransaction[]
+): Promise<string> {
+  const incomplete = realmResults.some(entry => entry.results.incomplete);
+  const { filename, filepath } = reportFile(outDir, `${walletAddress}-realms`, incomplete);
+
+  const grandTotal = realmResults.reduce((sum, entry) => sum + entry.results.totalFees, 0);
+
+  const rows = realmResults.map(({ realmId, results }) => {
+    const counted = countedTransactions(results);
+    const fees = counted.reduce((sum, tx) => sum + tx.transactionFee, 0);
+    const rent = counted.reduce((sum, tx) => sum + tx.rentCost, 0);
+    const share = grandTotal > 0 ? (results.totalFees / grandTotal) * 100 : 0;
+
+    return {
+      realm: realmId,
+      count: results.totalCount,
+      votes: results.votes.count,
+      proposals: results.proposals.count,
+      comments: results.comments.count,
+      fees: formatSolAmount(fees),
+      rent: formatSolAmount(rent),
+      total: formatSolAmount(results.totalFees),
+      share: share.toFixed(2)
+    };
+  });
+
+  const csvWriter = createObjectCsvWriter({
+    path: filepath,
+    header: [
+      { id: 'realm', title: 'Realm' },
+      { id: 'count', title: 'DAO Interactions' },
+      { id: 'votes', title: 'Votes' },
+      { id: 'proposals', title: 'Proposals' },
+      { id: 'comments', title: 'Comments' },
+      { id: 'fees', title: 'Transaction Fees (SOL)' },
+      { id: 'rent', title: 'Net Rent (SOL)' },
+      { id: 'total', title: 'Total Cost (SOL)' },
+      { id: 'share', title: 'Share of Total (%)' }
+    ]
+  });
+
+  await csvWriter.writeRecords(rows);
+
+  const totalCount = realmResults.reduce((sum, entry) => sum + entry.results.totalCount, 0);
+  const rejectedTotal = rejected.reduce((sum, tx) => sum + tx.totalCost, 0);
+  fs.appendFileSync(
+    filepath,
+    [
+      '',
+      `Total (${realmResults.length} realms),${totalCount},,,,,,${formatSolAmount(grandTotal)},100.00`,
+      `Not in any configured realm,${rejected.length},,,,,,${formatSolAmount(rejectedTotal)},`,
+      ...(incomplete ? ['', INCOMPLETE_NOTICE] : []),
+      ''
+    ].join('\n')
+  );
+
+  logSuccess(`Cross-realm overview generated: ${filename}`);
+  logInfo(`Full path: ${filepath}`);
+
+  return filepath;
+}
+
+/**
+ * Generate a roll-up CSV comparing totals across all wallets in a batch run
+ * @param outDir - Directory to write the report to
+ * @param realmId - Realm public key (used for filename)
+ * @param walletResults - Tracking results per wallet
+ */
+export async function generateRollupReport(
+  outDir: string,
+  realmId: string,
+  walletResults: WalletResults[]
+): Promise<string> {
+  const incomplete = walletResults.some(entry => entry.results.incomplete);
+  const { filename, filepath } = reportFile(outDir, `${realmId}-rollup`, incomplete);
+
+  const grandTotal = walletResults.reduce((sum, entry) => sum + entry.results.totalFees, 0);
+
+  const rows = walletResults.map(({ wallet, results }) => {
+    const counted = countedTransactions(results);
+    const fees = counted.reduce((sum, tx) => sum + tx.transactionFee, 0);
+    const rent = counted.reduce((sum, tx) => sum + tx.rentCost, 0);
+    const share = grandTotal > 0 ? (results.totalFees / grandTotal) * 100 : 0;
+
+    return {
+      wallet: wallet.address,
+      label: wallet.label || '',
+      count: results.totalCount,
+      votes: results.votes.count,
+      proposals: results.proposals.count,
+      comments: results.comments.count,
+      fees: formatSolAmount(fees),
+      rent: formatSolAmount(rent),
+      total: formatSolAmount(results.totalFees),
+      share: share.toFixed(2),
+      rejected: results.rejected.length
+    };
+  });
+
+  // Highest spenders first
+  rows.sort((a, b) => Number(b.total) - Number(a.total));
+
+  const csvWriter = createObjectCsvWriter({
+    path: filepath,
+    header: [
+      { id: 'wallet', title: 'Wallet' },
+      { id: 'label', title: 'Label' },
+      { id: 'count', title: 'DAO Interactions' },
+      { id: 'votes', title: 'Votes' },
+      { id: 'proposals', title: 'Proposals' },
+      { id: 'comments', title: 'Comments' },
+      { id: 'fees', title: 'Transaction Fees (SOL)' },
+      { id: 'rent', title: 'Net Rent (SOL)' },
+      { id: 'total', title: 'Total Cost (SOL)' },
+      { id: 'share', title: 'Share of Total (%)' },
+      { id: 'rejected', title: 'Rejected (Not In Realm)' }
+    ]
+  });
+
+  await csvWriter.writeRecords(rows);
+
+  const totalCount = walletResults.reduce((sum, entry) => sum + entry.results.totalCount, 0);
+  fs.appendFileSync(
+    filepath,
+    `\nTotal (${walletResults.length} wallets),,${totalCount},,,,,,${formatSolAmount(grandTotal)},100.00,\n` +
+      (incomplete ? `\n${INCOMPLETE_NOTICE}\n` : '')
+  );
+
+  logSuccess(`Roll-up report generated: ${filename}`);
+  logInfo(`Full path: ${filepath}`);
+
+  return filepath;
+}
+
+/**
+ * Generate the reimbursement ledger CSV for one wallet: each tracked cost with the
+ * amount already paid back, followed by the treasury payments found
+ * @param outDir - Directory to write the report to
+ * @param walletAddress - Wallet address (used for filename)
+ * @param ledger - Costs matched against treasury payments
+ * @param realmId - Realm public key, appended to the filename in multi-realm runs
+ */
+export async function generateReimbursementLedgerReport(
+  outDir: string,
+  walletAddress: string,
+  ledger: ReimbursementLedger,
+  realmId?: string
+): Promise<string> {
+  const basename = realmId ? `${walletAddress}-${realmId}-reimbursements` : `${walletAddress}-reimbursements`;
+  const { filename, filepath } = reportFile(outDir, basename, false);
+
+  const csvWriter = createObjectCsvWriter({
+    path: filepath,
+    header: [
+      { id: 'signature', title: 'Transaction Signature' },
+      { id: 'dateTime', title: 'Date/Time' },
+      { id: 'type', title: 'Transaction Type' },
+      { id: 'eligible', title: 'Eligible (SOL)' },
+      { id: 'paid', title: 'Paid (SOL)' },
+      { id: 'outstanding', title: 'Outstanding (SOL)' },
+      { id: 'paidBy', title: 'Paid By' }
+    ]
+  });
+
+  await csvWriter.writeRecords(ledger.entries.map(entry => ({
+    signature: entry.signature,
+    dateTime: formatTimestamp(entry.blockTime),
+    type: entry.transactionType,
+    eligible: formatSolAmount(entry.eligible),
+    paid: formatSolAmount(entry.paid),
+    outstanding: formatSolAmount(entry.outstanding),
+    paidBy: entry.paidBy.join(' ')
+  })));
+
+  const summaryLines = [
+    '',
+    '--- PAYMENTS ---',
+    '',
+    'Payment Signature,Date/Time,Treasury,Proposal,Proposal Name,Claim Period,Currency,Amount,Value (SOL),Applied (SOL),Over-paid (SOL)',
+    ...ledger.payments.map(payment => [
+      payment.signature,
+      formatTimestamp(payment.blockTime),
+      payment.treasury,
+      payment.proposal ?? '',
+      csvText(payment.proposalName ?? ''),
+      payment.claimPeriod
+        ? `${formatTimestamp(payment.claimPeriod.startTimestamp)} - ${formatTimestamp(payment.claimPeriod.endTimestamp)}`
+        : '',
+      payment.mint ?? 'SOL',
+      (Number(payment.amount) / 10 ** payment.decimals).toFixed(payment.decimals),
+      payment.lamports !== null ? formatSolAmount(payment.lamports) : 'not valued',
+      formatSolAmount(payment.applied),
+      formatSolAmount(Math.max((payment.lamports ?? 0) - payment.applied, 0))
+    ].join(',')),
+    '',
+    '--- SUMMARY ---',
+    '',
+    `Match Rule,${ledger.matchRule}`,
+    `Eligible,${ledger.entries.length},${formatSolAmount(ledger.eligible)} SOL`,
+    `Paid,${ledger.payments.length},${formatSolAmount(ledger.paid)} SOL`,
+    `Outstanding,,${formatSolAmount(ledger.outstanding)} SOL`,
+    `Over-paid,,${formatSolAmount(ledger.overpaid)} SOL`,
+    ...(ledger.unvaluedPayments > 0
+      ? [`Token payments not valued (no price data),${ledger.unvaluedPayments}`]
+      : [])
+  ];
+  fs.appendFileSync(filepath, '\n' + summaryLines.join('\n'));
+
+  logSuccess(`Reimbursement ledger generated: ${filename}`);
+  logInfo(`Full path: ${filepath}`);
+
+  return filepath;
+}
+
+/**
+ * Format a transaction's governance instructions with their explorer-style position
+ * ("#1 CreateProposal; #2 InsertTransaction; #3.1 CastVote")
+ */
+function formatInstructions(instructions: GovernanceInstruction[]): string {
+  return instructions
+    .map(ix => {
+      const position = ix.innerIndex === null ? `${ix.outerIndex + 1}` : `${ix.outerIndex + 1}.${ix.innerIndex + 1}`;
+      return `#${position} ${ix.name}`;
+    })
+    .join('; ');
+}
+
+/**
+ * Format the options of an Approve vote ("Option 1: 100%; Option 2: 0%")
+ * Ranks are included for ranked-choice votes
+ */
+function formatVoteChoices(choices: VoteChoice[]): string {
+  return choices
+    .map((choice, index) =>
+      `Option ${index + 1}: ${choice.weightPercentage}%${choice.rank > 0 ? ` (rank ${choice.rank})` : ''}`
+    )
+    .join('; ');
+}
+
+/**
+ * Quote free text (proposal names, links) for a CSV cell
+ */
+function csvText(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Format USD amount for reports (fees are fractions of a cent, so 6 decimals)
+ */
+function formatUsdAmount(usd: number): string {
+  return usd.toFixed(6);
+}
+
+/**
+ * Format an optional USD amount, empty when unpriced
+ */
+function formatOptionalUsd(usd: number | null | undefined): string {
+  return usd === null || usd === undefined ? '' : formatUsdAmount(usd);
+}
+
+/**
+ * Extra summary cell with the USD amount, when a price series was loaded
+ */
+function usdCell(usd: number | null): string {
+  return usd === null ? '' : `,${formatUsdAmount(usd)} USD`;
+}
+
 /**
  * Format SOL amount for display
  */
@@ -94,26 +663,208 @@ function formatSolAmount(lamports: number): string {
   return sol.toFixed(9);
 }
 
+/**
+ * Check whether a transaction is a vote cast with delegated voting power
+ */
+function isDelegatedVote(tx: TrackedTransaction): boolean {
+  return tx.transactionType === TransactionType.VOTE && tx.delegator !== null;
+}
+
+/**
+ * Transactions included in a result's totals: those the wallet paid for,
+ * failed ones only when reimbursed
+ */
+function countedTransactions(results: TrackingResults): TrackedTransaction[] {
+  return results.transactions.filter(tx =>
+    !tx.sponsored && (results.reimburseFailed || tx.status !== TransactionStatus.FAILED)
+  );
+}
+
+/**
+ * Match rent recovered when an account is closed to the transaction that created it
+ * (for example a VoteRecord created by CastVote and closed by RelinquishVote)
+ */
+function matchRentRecoveries(transactions: TrackedTransaction[]): RentMatch[] {
+  const chronological = [...transactions].sort((a, b) => a.blockTime - b.blockTime || a.slot - b.slot);
+  const paidIn = new Map<string, string>();
+  const matches: RentMatch[] = [];
+
+  for (const tx of chronological) {
+    for (const event of tx.rentEvents) {
+      if (event.lamports > 0) {
+        paidIn.set(event.account, tx.signature);
+        continue;
+      }
+
+      matches.push({
+        account: event.account,
+        lamports: -event.lamports,
+        recoveredIn: tx.signature,
+        paidIn: paidIn.get(event.account) ?? null
+      });
+      paidIn.delete(event.account);
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Group transactions into a realm -> governance -> proposal cost roll-up
+ * Groups are ordered by cost, highest first
+ */
+function buildCostRollup(
+  transactions: TrackedTransaction[],
+  realmId: string | null,
+  proposalMetadata: Map<string, ProposalMetadata>
+): RealmRollup {
+  const byGovernance = new Map<string | null, Map<string | null, TrackedTransaction[]>>();
+
+  for (const tx of transactions) {
+    const proposals = byGovernance.get(tx.governance) || new Map<string | null, TrackedTransaction[]>();
+    const txs = proposals.get(tx.proposal) || [];
+    txs.push(tx);
+    proposals.set(tx.proposal, txs);
+    byGovernance.set(tx.governance, proposals);
+  }
+
+  const sumCost = (txs: TrackedTransaction[]) => txs.reduce((sum, tx) => sum + tx.totalCost, 0);
+  const byCost = (a: { totalFees: number }, b: { totalFees: number }) => b.totalFees - a.totalFees;
+
+  const governances: GovernanceRollup[] = Array.from(byGovernance, ([governance, proposals]) => {
+    const proposalRollups: ProposalRollup[] = Array.from(proposals, ([proposal, txs]) => ({
+      proposal,
+      metadata: (proposal && proposalMetadata.get(proposal)) || null,
+      count: txs.length,
+      totalFees: sumCost(txs)
+    })).sort(byCost);
+
+    return {
+      governance,
+      count: proposalRollups.reduce((sum, p) => sum + p.count, 0),
+      totalFees: proposalRollups.reduce((sum, p) => sum + p.totalFees, 0),
+      proposals: proposalRollups
+    };
+  }).sort(byCost);
+
+  return {
+    realmId,
+    count: transactions.length,
+    totalFees: sumCost(transactions),
+    governances
+  };
+}
+
+/**
+ * Sum USD values over the transactions inside the price data
+ */
+function calculateUsdTotals(transactions: TrackedTransaction[]): UsdTotals {
+  const priced = transactions.filter(tx => tx.usd !== null && tx.usd.solPrice !== null);
+  return {
+    fees: priced.reduce((sum, tx) => sum + tx.usd!.fee!, 0),
+    rent: priced.reduce((sum, tx) => sum + tx.usd!.rent!, 0),
+    total: priced.reduce((sum, tx) => sum + tx.usd!.total!, 0),
+    pricedCount: priced.length,
+    unpricedCount: transactions.length - priced.length
+  };
+}
+
+/**
+ * Options for calculating tracking results
+ */
+export interface ResultsOptions {
+  incomplete?: boolean; // Partial results from an interrupted run
+  priorityFeeCap?: number | null; // Reimbursable priority fee cap per transaction (lamports)
+  realmId?: string | null; // Realm the transactions belong to (top of the cost roll-up)
+  proposalMetadata?: Map<string, ProposalMetadata>; // Decoded proposals referenced by the transactions
+  costSplitRule?: CostSplitRule; // How category totals split multi-instruction transactions
+  priceSeries?: PricePoint[] | null; // SOL/USD prices for USD valuation
+  reimburseFailed?: boolean; // Count failed transactions toward the totals (default false)
+  attributionMode?: AttributionMode; // Which transactions are the wallet's (default: fee payer)
+  paidForOthers?: TrackedTransaction[]; // Transactions the wallet paid for other token owners' actions
+}
+
 /**
  * Calculate tracking results from transactions
  */
-export function calculateResults(transactions: TrackedTransaction[]): TrackingResults {
+export function calculateResults(
+  transactions: TrackedTransaction[],
+  rejected: RejectedTransaction[] = [],
+  options: ResultsOptions = {}
+): TrackingResults {
+  const {
+    incomplete = false,
+    priorityFeeCap = null,
+    realmId = null,
+    proposalMetadata = new Map<string, ProposalMetadata>(),
+    costSplitRule = CostSplitRule.PRIMARY,
+    priceSeries = null,
+    reimburseFailed = false,
+    attributionMode = AttributionMode.FEE_PAYER,
+    paidForOthers = []
+  } = options;
+
+  // Transactions another account paid for get their own line and never join the totals
+  const sponsored = transactions.filter(tx => tx.sponsored);
+  const paid = transactions.filter(tx => !tx.sponsored);
+
+  // Failed transactions get their own line; they join the totals only when reimbursed
+  const failed = paid.filter(tx => tx.status === TransactionStatus.FAILED);
+  const succeeded = paid.filter(tx => tx.status !== TransactionStatus.FAILED);
+  const counted = reimburseFailed ? paid : succeeded;
+
+  // Value each transaction at its block time
+  if (priceSeries) {
+    for (const tx of new Set([...transactions, ...paidForOthers])) {
+      tx.usd = valueTransaction(tx, priceSeries);
+    }
+  }
+  const sumUsd = (txs: TrackedTransaction[]) => priceSeries
+    ? txs.reduce((sum, tx) => sum + (tx.usd?.total ?? 0), 0)
+    : null;
+
   const sumFees = (txs: TrackedTransaction[]) => 
     txs.reduce((sum, tx) => sum + tx.totalCost, 0);
 
-  const filterByType = (type: TransactionType) => 
-    transactions.filter(tx => tx.transactionType === type);
+  const summarize = (txs: TrackedTransaction[]): CategorySummary => ({
+    count: txs.length,
+    totalFees: sumFees(txs),
+    rentPaid: txs.reduce((sum, tx) => sum + tx.rentPaid, 0),
+    rentRecovered: txs.reduce((sum, tx) => sum + tx.rentRecovered, 0),
+    totalUsd: sumUsd(txs)
+  });
 
-  const createSummary = (type: TransactionType) => {
-    const txs = filterByType(type);
+  // Category totals follow the cost split rule; counts are instructions when costs are split
+  const allocations = succeeded.flatMap(tx =>
+    allocateCost(tx, costSplitRule).map(share => ({ ...share, solPrice: tx.usd?.solPrice ?? null }))
+  );
+  const shareCost = (share: CostAllocation) => share.fee + share.rentPaid - share.rentRecovered;
+
+  const createSummary = (type: TransactionType): CategorySummary => {
+    const shares = allocations.filter(share => share.transactionType === type);
     return {
-      count: txs.length,
-      totalFees: sumFees(txs)
+      count: shares.length,
+      totalFees: shares.reduce((sum, share) => sum + shareCost(share), 0),
+      rentPaid: shares.reduce((sum, share) => sum + share.rentPaid, 0),
+      rentRecovered: shares.reduce((sum, share) => sum + share.rentRecovered, 0),
+      totalUsd: priceSeries
+        ? shares.reduce((sum, share) => sum + (share.solPrice !== null ? lamportsToUsd(shareCost(share), share.solPrice) : 0), 0)
+        : null
     };
   };
 
+  const priced = counted
+    .map(tx => tx.computeUnitPrice)
+    .filter((price): price is number => price !== null);
+
+  const createTokenSummary = (kind: GoverningTokenKind) =>
+    summarize(counted.filter(tx => tx.governingTokenKind === kind));
+
+  const totals = summarize(counted);
+
   return {
     transactions,
+    rejected,
     votes: createSummary(TransactionType.VOTE),
     proposals: createSummary(TransactionType.PROPOSAL),
     comments: createSummary(TransactionType.COMMENT),
@@ -125,9 +876,41 @@ export function calculateResults(transactions: TrackedTransaction[]): TrackingRe
     proposalInstructions: createSummary(TransactionType.PROPOSAL_INSTRUCTION),
     governanceAdmin: createSummary(TransactionType.GOVERNANCE_ADMIN),
     refunds: createSummary(TransactionType.REFUND),
+    voterWeightPlugins: createSummary(TransactionType.VOTER_WEIGHT_PLUGIN),
     otherGovernance: createSummary(TransactionType.OTHER_GOVERNANCE),
-    totalCount: transactions.length,
-    totalFees: sumFees(transactions)
+    communityToken: createTokenSummary(GoverningTokenKind.COMMUNITY),
+    councilToken: createTokenSummary(GoverningTokenKind.COUNCIL),
+    unknownToken: createTokenSummary(GoverningTokenKind.UNKNOWN),
+    delegatedVotes: summarize(succeeded.filter(isDelegatedVote)),
+    failed: summarize(failed),
+    reimburseFailed,
+    sponsored: summarize(sponsored),
+    paidForOthers,
+    attributionMode,
+    baseFees: {
+      count: counted.length,
+      totalFees: counted.reduce((sum, tx) => sum + tx.baseFee, 0)
+    },
+    priorityFees: {
+      count: counted.filter(tx => tx.priorityFee > 0).length,
+      totalFees: counted.reduce((sum, tx) => sum + tx.priorityFee, 0)
+    },
+    reimbursableFees: counted.reduce((sum, tx) => sum + getReimbursableFee(tx, priorityFeeCap), 0),
+    priorityFeeCap,
+    costSplitRule,
+    usdTotals: priceSeries ? calculateUsdTotals(counted) : null,
+    computeUnitsConsumed: counted.reduce((sum, tx) => sum + (tx.computeUnitsConsumed || 0), 0),
+    averageComputeUnitPrice: priced.length > 0
+      ? Math.round(priced.reduce((sum, price) => sum + price, 0) / priced.length)
+      : null,
+    rentPaid: totals.rentPaid,
+    rentRecovered: totals.rentRecovered,
+    rentMatches: matchRentRecoveries(transactions),
+    costRollup: buildCostRollup(counted, realmId, proposalMetadata),
+    proposalMetadata,
+    totalCount: totals.count,
+    totalFees: totals.totalFees,
+    incomplete
   };
 }
 
@@ -80,6 +80,20 @@ export function formatTimestamp(timestamp: number): string {
   return date.toISOString().replace('T', ' ').replace('.000Z', ' UTC');
 }
 
+/**
+ * Format a duration in seconds as a short human-readable string
+ */
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) {
+    return `${Math.ceil(seconds)}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) {
+    return `${minutes}m ${Math.ceil(seconds % 60)}s`;
+  }
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
 /**
  * Validate date string format (MM-DD-YYYY)
  * @param dateStr - Date string to validate
@@ -0,0 +1,60 @@
+/**
+ * Graceful SIGINT handling
+ *
+ * The first Ctrl-C only sets a flag; long-running loops check it between steps
+ * so the current checkpoint can be saved and a partial report written. A second
+ * Ctrl-C exits immediately.
+ */
+
+import { InterruptedError } from '../errors';
+import { EXIT_CODES } from '../constants';
+import { logWarning, clearLine } from './logger';
+
+let interrupted = false;
+
+/**
+ * SIGINT listener
+ */
+function onInterrupt(): void {
+  clearLine();
+
+  if (interrupted) {
+    logWarning('Interrupted again, exiting without a report');
+    process.exit(EXIT_CODES.interrupted);
+  }
+
+  interrupted = true;
+  logWarning('Interrupt received, saving progress and writing a partial report (Ctrl-C again to exit immediately)...');
+}
+
+/**
+ * Start handling SIGINT gracefully
+ */
+export function installInterruptHandler(): void {
+  interrupted = false;
+  process.on('SIGINT', onInterrupt);
+}
+
+/**
+ * Restore the default SIGINT behaviour
+ */
+export function removeInterruptHandler(): void {
+  process.removeListener('SIGINT', onInterrupt);
+}
+
+/**
+ * Check if SIGINT was received
+ */
+export function isInterrupted(): boolean {
+  return interrupted;
+}
+
+/**
+ * Stop the current step if SIGINT was received
+ * @throws InterruptedError
+ */
+export function throwIfInterrupted(): void {
+  if (interrupted) {
+    throw new InterruptedError();
+  }
+}
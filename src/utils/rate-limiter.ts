@@ -1,19 +1,69 @@
 /**
  * Token Bucket Rate Limiter for RPC calls
- * 
+ *
  * Implements a token bucket algorithm to throttle requests
  * to stay within the configured requests-per-second limit.
+ * The global limiter covers the primary endpoint; every other RPC endpoint
+ * gets its own limiter.
+ *
+ * Requests are charged per RPC method (a getProgramAccounts scan costs more
+ * than a single lookup). The rate adapts to the provider: a 429 response halves
+ * it and pauses requests (for Retry-After when sent), and it creeps back up to
+ * the configured limit while requests succeed.
  */
 
+import { ADAPTIVE_RATE_CONFIG, DEFAULT_RPC_METHOD_COSTS } from '../constants';
+
+/**
+ * Wall-clock time during which at least one request was waiting
+ */
+interface WaitTimer {
+  waiting: number; // Requests currently waiting
+  since: number; // When the current waiting period started
+  totalMs: number;
+}
+
+const throttleTimer: WaitTimer = { waiting: 0, since: 0, totalMs: 0 };
+const pauseTimer: WaitTimer = { waiting: 0, since: 0, totalMs: 0 };
+let methodCosts: Record<string, number> = { ...DEFAULT_RPC_METHOD_COSTS };
+let rateLimitedCount = 0;
+
+/**
+ * Sleep for the specified duration, counting it toward the given timers
+ */
+async function timedSleep(ms: number, timers: WaitTimer[]): Promise<void> {
+  const now = Date.now();
+  for (const timer of timers) {
+    if (timer.waiting++ === 0) {
+      timer.since = now;
+    }
+  }
+
+  await new Promise(resolve => setTimeout(resolve, ms));
+
+  const end = Date.now();
+  for (const timer of timers) {
+    if (--timer.waiting === 0) {
+      timer.totalMs += end - timer.since;
+    }
+  }
+}
+
 /**
  * Rate limiter instance
  */
-class RateLimiter {
+export class RateLimiter {
   private tokens: number;
   private maxTokens: number;
   private refillRate: number; // tokens per millisecond
   private lastRefill: number;
   private initialized: boolean = false;
+  private rps: number = 0; // Configured limit
+  private rateFactor: number = 1; // Current fraction of the configured limit
+  private pausedUntil: number = 0;
+  private consecutiveRateLimits: number = 0;
+  private lastAdjustment: number = 0;
+  private queue: Promise<void> = Promise.resolve(); // Acquisitions run one at a time, in call order
 
   constructor() {
     this.tokens = 0;
@@ -27,10 +77,14 @@ class RateLimiter {
    * @param rps - Requests per second limit
    */
   init(rps: number): void {
+    this.rps = rps;
+    this.rateFactor = 1;
     this.maxTokens = rps;
     this.tokens = rps; // Start with full bucket
     this.refillRate = rps / 1000; // Convert to tokens per millisecond
     this.lastRefill = Date.now();
+    this.pausedUntil = 0;
+    this.consecutiveRateLimits = 0;
     this.initialized = true;
   }
 
@@ -41,53 +95,150 @@ class RateLimiter {
     const now = Date.now();
     const elapsed = now - this.lastRefill;
     const tokensToAdd = elapsed * this.refillRate;
-    
+
     this.tokens = Math.min(this.maxTokens, this.tokens + tokensToAdd);
     this.lastRefill = now;
   }
 
+  /**
+   * Apply the current rate factor to the bucket
+   */
+  private setRateFactor(factor: number): void {
+    this.refill();
+    this.rateFactor = factor;
+    this.maxTokens = Math.max(1, this.rps * factor);
+    this.refillRate = this.rps * factor / 1000;
+    this.tokens = Math.min(this.tokens, this.maxTokens);
+  }
+
   /**
    * Calculate wait time needed before a request can proceed
+   * @param cost - Tokens needed, at most the bucket size
    * @returns Wait time in milliseconds (0 if no wait needed)
    */
-  private getWaitTime(): number {
+  private getWaitTime(cost: number): number {
     this.refill();
-    
-    if (this.tokens >= 1) {
+
+    if (this.tokens >= cost) {
       return 0;
     }
-    
-    // Calculate time needed to get 1 token
-    const tokensNeeded = 1 - this.tokens;
+
+    // Calculate time needed to get the tokens
+    const tokensNeeded = cost - this.tokens;
     return Math.ceil(tokensNeeded / this.refillRate);
   }
 
   /**
-   * Acquire a token, waiting if necessary
-   * Call this before making an RPC request
+   * Acquire tokens, waiting if necessary
+   * Call this before making an RPC request. Concurrent callers are served in
+   * call order, so each one waits for the tokens the earlier ones consumed.
+   * @param cost - Tokens the request costs
    */
-  async throttle(): Promise<void> {
+  async throttle(cost: number = 1): Promise<void> {
     if (!this.initialized) {
       // If not initialized, don't throttle (allows usage before config load)
       return;
     }
 
-    const waitTime = this.getWaitTime();
-    
-    if (waitTime > 0) {
-      await this.sleep(waitTime);
-      this.refill();
+    const turn = this.queue.then(() => this.acquire(cost));
+    this.queue = turn.catch(() => undefined);
+    await turn;
+  }
+
+  /**
+   * Wait until the tokens are available and consume them
+   * A cost above the bucket size (a batch request) is taken a bucket at a time,
+   * so it is paced at the configured rate rather than sent on credit. The wait
+   * is checked again after waking, as a 429 may have slowed the rate or paused
+   * requests in the meantime.
+   */
+  private async acquire(cost: number): Promise<void> {
+    let remaining = cost;
+
+    while (remaining > 0) {
+      await this.waitForPause();
+      const chunk = Math.min(remaining, this.maxTokens);
+
+      let waitTime = this.getWaitTime(chunk);
+      while (waitTime > 0) {
+        await timedSleep(waitTime, [throttleTimer]);
+        await this.waitForPause();
+        waitTime = this.getWaitTime(Math.min(chunk, this.maxTokens));
+      }
+
+      // Consume the tokens
+      const taken = Math.min(chunk, this.maxTokens);
+      this.tokens -= taken;
+      remaining -= taken;
+    }
+  }
+
+  /**
+   * Wait out a pause after a 429 response
+   */
+  async waitForPause(): Promise<void> {
+    let remaining = this.getPauseRemaining();
+    while (remaining > 0) {
+      await timedSleep(remaining, [throttleTimer, pauseTimer]);
+      remaining = this.getPauseRemaining();
+    }
+  }
+
+  /**
+   * Slow down after a 429 response
+   * Responses arriving during the pause extend it but do not slow down further,
+   * so a burst of concurrent 429s counts once.
+   * @param retryAfterMs - Delay requested by the provider, null if not sent
+   */
+  onRateLimited(retryAfterMs: number | null): void {
+    rateLimitedCount++;
+    if (!this.initialized) {
+      return;
+    }
+
+    const now = Date.now();
+    const backoff = ADAPTIVE_RATE_CONFIG.pauseMs * Math.pow(2, this.consecutiveRateLimits);
+    const pause = Math.min(retryAfterMs ?? backoff, ADAPTIVE_RATE_CONFIG.maxPauseMs);
+
+    if (now >= this.pausedUntil) {
+      this.consecutiveRateLimits++;
+      this.setRateFactor(Math.max(
+        ADAPTIVE_RATE_CONFIG.minRateFactor,
+        this.rateFactor * ADAPTIVE_RATE_CONFIG.slowdownFactor
+      ));
     }
-    
-    // Consume a token
-    this.tokens -= 1;
+    this.pausedUntil = Math.max(this.pausedUntil, now + pause);
+    this.lastAdjustment = now;
+  }
+
+  /**
+   * Speed back up toward the configured limit after a successful request
+   */
+  onSuccess(): void {
+    this.consecutiveRateLimits = 0;
+    if (!this.initialized || this.rateFactor >= 1) {
+      return;
+    }
+
+    const now = Date.now();
+    if (now - this.lastAdjustment >= ADAPTIVE_RATE_CONFIG.recoveryIntervalMs) {
+      this.setRateFactor(Math.min(1, this.rateFactor + ADAPTIVE_RATE_CONFIG.recoveryStep));
+      this.lastAdjustment = now;
+    }
+  }
+
+  /**
+   * Milliseconds left in the current pause (0 if not paused)
+   */
+  getPauseRemaining(): number {
+    return Math.max(0, this.pausedUntil - Date.now());
   }
 
   /**
-   * Sleep for the specified duration
+   * Current requests per second limit, after any slow-down
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  getCurrentRps(): number {
+    return this.rps * this.rateFactor;
   }
 
   /**
@@ -117,11 +268,49 @@ export function initRateLimiter(rps: number): void {
   rateLimiter.init(rps);
 }
 
+/**
+ * Create a rate limiter for one RPC endpoint
+ * @param rps - Requests per second limit
+ */
+export function createRateLimiter(rps: number): RateLimiter {
+  const limiter = new RateLimiter();
+  limiter.init(rps);
+  return limiter;
+}
+
+/**
+ * Override the token cost of RPC methods
+ * @param overrides - Cost per method name, on top of the defaults
+ */
+export function setMethodCosts(overrides: Record<string, number>): void {
+  methodCosts = { ...DEFAULT_RPC_METHOD_COSTS, ...overrides };
+}
+
+/**
+ * Tokens an RPC method costs
+ */
+export function getMethodCost(method: string): number {
+  return methodCosts[method] ?? 1;
+}
+
 /**
  * Throttle before making an RPC request
  * Waits if necessary to stay within rate limits
+ * @param method - RPC method about to be called, for its token cost
  */
-export async function throttle(): Promise<void> {
-  await rateLimiter.throttle();
+export async function throttle(method?: string): Promise<void> {
+  await rateLimiter.throttle(method ? getMethodCost(method) : 1);
 }
 
+/**
+ * Time spent throttled so far, across all limiters
+ */
+export function getThrottleStats(): { throttledMs: number; pausedMs: number; rateLimited: number } {
+  const now = Date.now();
+  const elapsed = (timer: WaitTimer) => timer.totalMs + (timer.waiting > 0 ? now - timer.since : 0);
+  return {
+    throttledMs: elapsed(throttleTimer),
+    pausedMs: elapsed(pauseTimer),
+    rateLimited: rateLimitedCount
+  };
+}
@@ -0,0 +1,447 @@
+/**
+ * Console summaries for tracking results
+ */
+
+import {
+  TrackingResults,
+  RejectedTransaction,
+  WalletResults,
+  RealmResults,
+  CostSplitRule,
+  CategorySummary,
+  ReimbursementLedger,
+  LedgerMatchRule,
+  RpcUsage
+} from '../types';
+import { LAMPORTS_PER_SOL } from '../constants';
+import { logHeader, logSummaryLine, logTotal } from './logger';
+import { formatTimestamp, formatDuration } from './date-utils';
+
+/**
+ * Mark the header of a summary built from an interrupted run
+ */
+function withIncompleteMarker(title: string, incomplete: boolean): string {
+  return incomplete ? `${title} (INCOMPLETE - run interrupted)` : title;
+}
+
+/**
+ * Display per-realm totals for one wallet in a multi-realm run
+ */
+export function displayRealmOverview(realmResults: RealmResults[]): void {
+  const incomplete = realmResults.some(entry => entry.results.incomplete);
+  logHeader(withIncompleteMarker('Cross-Realm Overview', incomplete));
+
+  for (const { realmId, results } of realmResults) {
+    logSummaryLine(realmId, results.totalCount, formatSol(results.totalFees));
+  }
+
+  const totalCount = realmResults.reduce((sum, entry) => sum + entry.results.totalCount, 0);
+  const totalFees = realmResults.reduce((sum, entry) => sum + entry.results.totalFees, 0);
+  logTotal(totalCount, formatSol(totalFees));
+}
+
+/**
+ * Display per-wallet totals for a batch run, highest spend first
+ */
+export function displayRollup(walletResults: WalletResults[], realmId?: string): void {
+  const incomplete = walletResults.some(entry => entry.results.incomplete);
+  logHeader(withIncompleteMarker(realmId ? `Wallet Roll-up: ${realmId}` : 'Wallet Roll-up', incomplete));
+
+  const sorted = [...walletResults].sort((a, b) => b.results.totalFees - a.results.totalFees);
+  for (const { wallet, results } of sorted) {
+    logSummaryLine(
+      wallet.label || wallet.address,
+      results.totalCount,
+      formatSol(results.totalFees)
+    );
+  }
+
+  const totalCount = walletResults.reduce((sum, entry) => sum + entry.results.totalCount, 0);
+  const totalFees = walletResults.reduce((sum, entry) => sum + entry.results.totalFees, 0);
+  logTotal(totalCount, formatSol(totalFees));
+}
+
+/**
+ * Display tracking results summary in console
+ */
+export function displayResults(results: TrackingResults, realmId?: string): void {
+  logHeader(withIncompleteMarker(
+    realmId ? `Transaction Fee Summary: ${realmId}` : 'Transaction Fee Summary',
+    results.incomplete
+  ));
+
+  if (results.costSplitRule !== CostSplitRule.PRIMARY) {
+    console.log(`  Costs split between instructions (${results.costSplitRule}); counts are instructions`);
+  }
+
+  // Core governance actions
+  logSummaryLine(
+    'Votes Casted',
+    results.votes.count,
+    formatCost(results.votes)
+  );
+
+  if (results.delegatedVotes.count > 0) {
+    logSummaryLine(
+      'Delegated Votes (included above)',
+      results.delegatedVotes.count,
+      formatCost(results.delegatedVotes)
+    );
+  }
+
+  logSummaryLine(
+    'Proposals Created',
+    results.proposals.count,
+    formatCost(results.proposals)
+  );
+
+  logSummaryLine(
+    'Comments Posted',
+    results.comments.count,
+    formatCost(results.comments)
+  );
+
+  // Token management
+  logSummaryLine(
+    'Token Deposits',
+    results.tokenDeposits.count,
+    formatCost(results.tokenDeposits)
+  );
+
+  logSummaryLine(
+    'Token Withdrawals',
+    results.tokenWithdrawals.count,
+    formatCost(results.tokenWithdrawals)
+  );
+
+  // Delegation
+  logSummaryLine(
+    'Delegations',
+    results.delegates.count,
+    formatCost(results.delegates)
+  );
+
+  // Execution
+  logSummaryLine(
+    'Execute Transactions',
+    results.executes.count,
+    formatCost(results.executes)
+  );
+
+  // Proposal management
+  logSummaryLine(
+    'Signatory Actions',
+    results.signatories.count,
+    formatCost(results.signatories)
+  );
+
+  logSummaryLine(
+    'Proposal Instructions',
+    results.proposalInstructions.count,
+    formatCost(results.proposalInstructions)
+  );
+
+  // Admin & other
+  logSummaryLine(
+    'Governance Admin',
+    results.governanceAdmin.count,
+    formatCost(results.governanceAdmin)
+  );
+
+  logSummaryLine(
+    'Refunds',
+    results.refunds.count,
+    formatCost(results.refunds)
+  );
+
+  logSummaryLine(
+    'Voter Weight Plugins',
+    results.voterWeightPlugins.count,
+    formatCost(results.voterWeightPlugins)
+  );
+
+  logSummaryLine(
+    'Other Governance',
+    results.otherGovernance.count,
+    formatCost(results.otherGovernance)
+  );
+
+  // Failed transactions still charged their fee
+  if (results.failed.count > 0) {
+    logSummaryLine(
+      results.reimburseFailed ? 'Failed Transactions' : 'Failed Transactions (not reimbursed)',
+      results.failed.count,
+      formatCost(results.failed)
+    );
+  }
+
+  // Attributed transactions another account paid for (sponsored)
+  if (results.sponsored.count > 0) {
+    logSummaryLine(
+      'Paid by Others (not counted)',
+      results.sponsored.count,
+      formatCost(results.sponsored)
+    );
+  }
+
+  // Governing token split
+  console.log();
+  logSummaryLine(
+    'Community Token',
+    results.communityToken.count,
+    formatCost(results.communityToken)
+  );
+
+  logSummaryLine(
+    'Council Token',
+    results.councilToken.count,
+    formatCost(results.councilToken)
+  );
+
+  if (results.unknownToken.count > 0) {
+    logSummaryLine(
+      'Unknown Token',
+      results.unknownToken.count,
+      formatCost(results.unknownToken)
+    );
+  }
+
+  // Base vs priority fees
+  console.log();
+  logSummaryLine(
+    'Base Fees',
+    results.baseFees.count,
+    formatSol(results.baseFees.totalFees)
+  );
+
+  logSummaryLine(
+    'Priority Fees',
+    results.priorityFees.count,
+    formatSol(results.priorityFees.totalFees)
+  );
+
+  logSummaryLine(
+    results.priorityFeeCap !== null
+      ? `Reimbursable Fees (priority capped at ${formatSol(results.priorityFeeCap)})`
+      : 'Reimbursable Fees',
+    results.totalCount,
+    formatSol(results.reimbursableFees)
+  );
+
+  console.log(`  Compute units consumed: ${results.computeUnitsConsumed}`);
+  if (results.averageComputeUnitPrice !== null) {
+    console.log(`  Average compute unit price: ${results.averageComputeUnitPrice} micro-lamports`);
+  }
+
+  // Rent ledger (recovered rent reduces the net cost)
+  if (results.rentPaid > 0 || results.rentRecovered > 0) {
+    const matched = results.rentMatches.filter(match => match.paidIn !== null).length;
+    console.log();
+    console.log(`  Rent paid: ${formatSol(results.rentPaid)}`);
+    console.log(`  Rent recovered: ${formatSol(results.rentRecovered)} (${matched}/${results.rentMatches.length} refunds matched to the paying transaction)`);
+    console.log(`  Net rent: ${formatSol(results.rentPaid - results.rentRecovered)}`);
+  }
+
+  // USD valuation coverage
+  if (results.usdTotals) {
+    const { fees, rent, unpricedCount } = results.usdTotals;
+    console.log();
+    console.log(`  Transaction fees: ${formatUsd(fees)}, net rent: ${formatUsd(rent)}`);
+    if (unpricedCount > 0) {
+      console.log(`  ${unpricedCount} transaction(s) outside the price data are not valued in USD`);
+    }
+  }
+
+  const totalUsd = results.usdTotals ? ` (${formatUsd(results.usdTotals.total)})` : '';
+  logTotal(results.totalCount, `${formatSol(results.totalFees)}${totalUsd}`);
+}
+
+/**
+ * Display the realm -> governance -> proposal cost roll-up
+ */
+export function displayCostRollup(results: TrackingResults): void {
+  const rollup = results.costRollup;
+  if (rollup.count === 0) {
+    return;
+  }
+
+  logHeader('Cost by Governance / Proposal');
+
+  if (rollup.realmId) {
+    logSummaryLine(`Realm ${rollup.realmId}`, rollup.count, formatSol(rollup.totalFees));
+  }
+  for (const governance of rollup.governances) {
+    logSummaryLine(
+      governance.governance ? `  Governance ${governance.governance}` : '  Realm-level actions',
+      governance.count,
+      formatSol(governance.totalFees)
+    );
+    for (const proposal of governance.proposals) {
+      if (!proposal.proposal && governance.proposals.length === 1) {
+        continue;
+      }
+      const label = proposal.metadata
+        ? `    ${proposal.metadata.name} [${proposal.metadata.state}]`
+        : proposal.proposal ? `    Proposal ${proposal.proposal}` : '    No proposal';
+      logSummaryLine(
+        label,
+        proposal.count,
+        formatSol(proposal.totalFees)
+      );
+    }
+  }
+  console.log();
+}
+
+/**
+ * Display the reimbursement ledger: what was paid back, what is still owed and
+ * what was over-paid
+ */
+export function displayReimbursementLedger(ledger: ReimbursementLedger, realmId?: string): void {
+  logHeader(realmId ? `Reimbursement Ledger: ${realmId}` : 'Reimbursement Ledger');
+
+  console.log(`  Payments matched ${ledger.matchRule === LedgerMatchRule.FIFO ? 'first-in-first-out' : 'by claim period, then first-in-first-out'}`);
+  for (const payment of ledger.payments) {
+    const value = payment.lamports !== null ? formatSol(payment.lamports) : 'not valued';
+    const currency = payment.mint
+      ? ` (${(Number(payment.amount) / 10 ** payment.decimals).toFixed(payment.decimals)} of ${payment.mint})`
+      : '';
+    console.log(`  ${formatTimestamp(payment.blockTime)} ${value}${currency} - ${payment.proposalName ?? payment.proposal ?? payment.signature}`);
+  }
+  if (ledger.unvaluedPayments > 0) {
+    console.log(`  ${ledger.unvaluedPayments} token payment(s) without price data are not matched`);
+  }
+
+  console.log();
+  console.log(`  Eligible: ${formatSol(ledger.eligible)} (${ledger.entries.length} transactions)`);
+  console.log(`  Paid: ${formatSol(ledger.paid)} (${ledger.payments.length} payments)`);
+  console.log(`  Outstanding: ${formatSol(ledger.outstanding)}`);
+  console.log(`  Over-paid: ${formatSol(ledger.overpaid)}`);
+  console.log();
+}
+
+/**
+ * Display what the wallet paid for other token owners' governance actions
+ */
+export function displayPaidForOthers(results: TrackingResults): void {
+  if (results.paidForOthers.length === 0) {
+    return;
+  }
+
+  logHeader('Paid For Others');
+
+  const byOwner = new Map<string, number[]>();
+  for (const tx of results.paidForOthers) {
+    const owner = tx.onBehalfOf.join(', ');
+    byOwner.set(owner, [...(byOwner.get(owner) || []), tx.totalCost]);
+  }
+
+  for (const [owner, costs] of byOwner) {
+    logSummaryLine(owner, costs.length, formatSol(costs.reduce((sum, cost) => sum + cost, 0)));
+  }
+  const total = results.paidForOthers.reduce((sum, tx) => sum + tx.totalCost, 0);
+  logSummaryLine('Total', results.paidForOthers.length, formatSol(total));
+  console.log();
+}
+
+/**
+ * Display governance transactions excluded because they belong to another realm
+ */
+export function displayRejected(rejected: RejectedTransaction[]): void {
+  if (rejected.length === 0) {
+    return;
+  }
+
+  logHeader('Rejected Transactions (Not In Realm)');
+
+  const byReason = new Map<string, RejectedTransaction[]>();
+  for (const tx of rejected) {
+    const group = byReason.get(tx.rejectionReason) || [];
+    group.push(tx);
+    byReason.set(tx.rejectionReason, group);
+  }
+
+  for (const [reason, txs] of byReason) {
+    const total = txs.reduce((sum, tx) => sum + tx.totalCost, 0);
+    logSummaryLine(reason, txs.length, formatSol(total));
+  }
+  console.log();
+}
+
+/**
+ * Display time spent throttled, plus per-endpoint statistics when several
+ * endpoints are configured
+ */
+export function displayRpcUsage(usage: RpcUsage): void {
+  logHeader('RPC Usage');
+
+  console.log(`  Time throttled: ${formatDuration(usage.throttledMs / 1000)}`);
+  if (usage.rateLimited > 0) {
+    console.log(`  Rate limited: ${usage.rateLimited} responses (429), ${formatDuration(usage.pausedMs / 1000)} paused`);
+  }
+
+  if (usage.endpoints.length > 1) {
+    for (const endpoint of usage.endpoints) {
+      const latency = endpoint.averageLatencyMs !== null ? `${endpoint.averageLatencyMs}ms avg` : 'no successful requests';
+      console.log(`  ${endpoint.host}${endpoint.archival ? ' (archival)' : ''}`);
+      console.log(`    Requests: ${endpoint.requests}, errors: ${endpoint.errors} (429: ${endpoint.rateLimited}), history unavailable: ${endpoint.historyUnavailable}, ${latency}`);
+    }
+  } else if (usage.endpoints.length === 1 && usage.rateLimited > 0) {
+    console.log(`  Final rate limit: ${usage.endpoints[0].currentRps.toFixed(1)} requests/second`);
+  }
+  console.log();
+}
+
+/**
+ * Display empty results message
+ */
+export function displayEmptyResults(walletAddress: string, realmId: string): void {
+  logHeader('Transaction Fee Summary');
+
+  console.log('  No governance transactions found for:');
+  console.log(`    Wallet: ${walletAddress}`);
+  console.log(`    Realm: ${realmId}`);
+  console.log();
+  
+  const zeroSol = '0.000000000 SOL';
+  logSummaryLine('Votes Casted', 0, zeroSol);
+  logSummaryLine('Proposals Created', 0, zeroSol);
+  logSummaryLine('Comments Posted', 0, zeroSol);
+  logSummaryLine('Token Deposits', 0, zeroSol);
+  logSummaryLine('Token Withdrawals', 0, zeroSol);
+  logSummaryLine('Delegations', 0, zeroSol);
+  logSummaryLine('Execute Transactions', 0, zeroSol);
+  logSummaryLine('Signatory Actions', 0, zeroSol);
+  logSummaryLine('Proposal Instructions', 0, zeroSol);
+  logSummaryLine('Governance Admin', 0, zeroSol);
+  logSummaryLine('Refunds', 0, zeroSol);
+  logSummaryLine('Other Governance', 0, zeroSol);
+  console.log();
+  logSummaryLine('Community Token', 0, zeroSol);
+  logSummaryLine('Council Token', 0, zeroSol);
+  logTotal(0, zeroSol);
+}
+
+/**
+ * Format lamports as SOL with unit
+ */
+export function formatSol(lamports: number): string {
+  const sol = lamports / LAMPORTS_PER_SOL;
+  return `${sol.toFixed(9)} SOL`;
+}
+
+/**
+ * Format USD amount for display
+ */
+export function formatUsd(usd: number): string {
+  return `$${usd.toFixed(6)}`;
+}
+
+/**
+ * Format a category's net cost, with its USD value when a price series was loaded
+ */
+function formatCost(summary: CategorySummary): string {
+  return summary.totalUsd !== null
+    ? `${formatSol(summary.totalFees)} (${formatUsd(summary.totalUsd)})`
+    : formatSol(summary.totalFees);
+}